@@ -1,53 +1,140 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, createRef } from 'react';
 import { 
-  Play, Pause, RefreshCw, Activity, Upload, ClipboardList, ScanLine, Droplets, LayoutGrid, ChevronRight, CheckCircle2, Loader2, Info, Camera, StopCircle, Video, X
+  Play, Pause, RefreshCw, Activity, Upload, ClipboardList, ScanLine, Droplets, LayoutGrid, ChevronRight, CheckCircle2, Loader2, Info, Camera, StopCircle, Video, X, Ruler, FileJson, FileText, Printer, FolderOpen, Pencil, RotateCcw
 } from 'lucide-react';
-import { TrackingPoint, AnalysisResult, ViewAnalysis } from './types.ts';
-import { trackSpeckle, enhanceContrast, autoDetectWalls, createDiagnosticMask, calculateArea } from './utils/motion.ts';
+import { TrackingPoint, AtrialAnalysis, AnalysisResult, DicomIdentity, ViewAnalysis, ViewId, ViewKind, BullsEyeMode, BloodPressure, ValveEvent, ValveTimings, ShortAxisView, ApicalView, Vector2, TrackingSettings, TrackingAlgorithm, FrameOutput, GrayImage, StoredClip, StudySession, StudySummary, SessionView } from './types.ts';
+import { DEFAULT_TRACKING_SETTINGS, toGrayscale, enhanceContrast, autoDetectWalls, createDiagnosticMask, snapToEdge, packMask, unpackMask } from './utils/motion.ts';
+import { computeSegmentalStrain, getLongAxis } from './utils/segments.ts';
+import { computeBeatVolumes, averageVolumes } from './utils/volumes.ts';
+import { medianFrameInterval } from './utils/cycles.ts';
+import { estimateHeartRate, pickHeartRate, taggedHeartRate } from './utils/heartRate.ts';
+import { averageGls } from './utils/strain.ts';
+import { VIEWS, VIEW_IDS, createViewRecord, isShortAxis, isRightVentricle, hasAtrium, getViewDefinition } from './utils/views.ts';
+import { resetPoint, layoutPoints } from './utils/pipeline.ts';
+import { createEmptyAnalysis, accumulateFrame, finalizeView } from './utils/analysis.ts';
+import { peakShortAxis, summarizeShortAxis } from './utils/shortAxis.ts';
+import { summarizeRightVentricle } from './utils/rightVentricle.ts';
+import { measureAtrialFrame, summarizeLeftAtrium } from './utils/atrium.ts';
+import { averageStrainRates } from './utils/kinematics.ts';
+import { computeMechanicalDispersion, POST_SYSTOLIC_INDEX_LIMIT } from './utils/dispersion.ts';
+import { computeMyocardialWork } from './utils/work.ts';
+import { combineSegmentQuality } from './utils/quality.ts';
+import { AHA_SEGMENT_NAMES } from './utils/segments.ts';
+import { createCalibration, createSpacingCalibration, formatArea, formatLength, formatVelocity } from './utils/calibration.ts';
 import BullsEyeChart from './components/BullsEyeChart.tsx';
+import PressureStrainLoop from './components/PressureStrainLoop.tsx';
 import TrackingOverlay from './components/TrackingOverlay.tsx';
 import StrainChart from './components/StrainChart.tsx';
+import DicomPreview from './components/DicomPreview.tsx';
+import StudyPanel from './components/StudyPanel.tsx';
+import ReviewScrubber from './components/ReviewScrubber.tsx';
+import { createMotionPool, MotionPool, JobCancelledError } from './services/motionPool.ts';
+import { createAnalysisControl, AnalysisControl, AnalysisCancelledError } from './services/analysisControl.ts';
+import { DicomCine, isDicomFile, parseDicom, getFrameSpacing } from './services/dicom.ts';
+import { FrameSource, createVideoFrameSource, createDicomFrameSource } from './services/frameSource.ts';
+import { captureSvg, downloadBlob, exportDicomSr, exportHtml, exportJson, printReport } from './services/reportExport.ts';
+import { createStudyId, deleteStudy, exportStudyFile, importStudyFile, listStudies, loadStudy, saveStudy, STUDY_FILE_EXTENSION } from './services/studyStore.ts';
+import { ReportCharts, dicomSrProblem } from './utils/report.ts';
 
 const FPS = 30;
+const FRAME_WIDTH = 600;
+const FRAME_HEIGHT = 450;
+const MAX_FRAMES_IN_FLIGHT = 2;
+const SEEK_TIMEOUT_MS = 5000;
+
+type ViewStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+type ViewState = ViewAnalysis & {
+  videoUrl: string | null,
+  dicom: DicomCine | null,
+  clip: StoredClip | null,
+  seedPoints: TrackingPoint[] | null,
+  seedFrame: number, // clip frame the seeds were placed on; tracking starts there
+  roi: { x: number, y: number, w: number, h: number } | null,
+  laRoi: { x: number, y: number, w: number, h: number } | null,
+  isProcessed: boolean,
+  progress: number,
+  status: ViewStatus,
+  error: string | null
+};
+
+const createViewState = (): ViewState => ({
+  ...createEmptyAnalysis(), calibration: null, videoUrl: null, dicom: null, clip: null, seedPoints: null, seedFrame: 0, roi: null, laRoi: null, isProcessed: false, progress: 0, status: 'idle', error: null
+});
+
+// Identity of the DICOM clips behind the processed views, for filing the SR with its study
+const dicomSources = (views: { [key in ViewId]: ViewState }): { [key in ViewId]?: DicomIdentity } =>
+  Object.fromEntries(VIEW_IDS.filter(v => views[v].isProcessed && views[v].dicom).map(v => [v, views[v].dicom!.identity]));
 
 const App: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [hrOverride, setHrOverride] = useState<number | null>(null);
+  const [bloodPressure, setBloodPressure] = useState<BloodPressure | null>(null);
+  const [bpText, setBpText] = useState('');
+  const [valveOverride, setValveOverride] = useState<Partial<ValveTimings>>({});
+  const [trackingSettings, setTrackingSettings] = useState<TrackingSettings>(DEFAULT_TRACKING_SETTINGS);
+  const [isPaused, setIsPaused] = useState(false);
+  const controlRef = useRef<AnalysisControl | null>(null);
 
   // Recording & Stream States
   const [isRecording, setIsRecording] = useState<boolean>(false);
-  const [recordingTarget, setRecordingTarget] = useState<'a4c' | 'a2c' | null>(null);
+  const [recordingTarget, setRecordingTarget] = useState<ViewId | null>(null);
   const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
 
   // View States
-  const [vData, setVData] = useState<{ [key in 'a4c' | 'a2c']: ViewAnalysis & { 
-    videoUrl: string | null, 
-    roi: { x: number, y: number, w: number, h: number } | null,
-    isProcessed: boolean,
-    progress: number
-  }}>({
-    a4c: { gls: 0, ef: 0, maxArea: 0, minArea: Infinity, history: [], points: [], mask: null, videoUrl: null, roi: null, isProcessed: false, progress: 0 },
-    a2c: { gls: 0, ef: 0, maxArea: 0, minArea: Infinity, history: [], points: [], mask: null, videoUrl: null, roi: null, isProcessed: false, progress: 0 },
-  });
+  const [vData, setVData] = useState<{ [key in ViewId]: ViewState }>(() => createViewRecord(createViewState));
 
   // ROI Selection UI state
   const [isDrawingRoi, setIsDrawingRoi] = useState(false);
-  const [targetView, setTargetView] = useState<'a4c' | 'a2c' | null>(null);
+  const [targetView, setTargetView] = useState<ViewId | null>(null);
   const [roiStart, setRoiStart] = useState<{ x: number, y: number } | null>(null);
+  // View whose next drag draws the LA ROI instead of the LV ROI
+  const [atrialRoiView, setAtrialRoiView] = useState<ViewId | null>(null);
 
-  const videoRefs = {
-    a4c: useRef<HTMLVideoElement>(null),
-    a2c: useRef<HTMLVideoElement>(null)
-  };
+  // Calibration UI state
+  const [calibrationView, setCalibrationView] = useState<ViewId | null>(null);
+  const [calibrationLine, setCalibrationLine] = useState<{ start: Vector2, end: Vector2 } | null>(null);
+  const [isDrawingCalibration, setIsDrawingCalibration] = useState(false);
+  const [calibrationCm, setCalibrationCm] = useState('');
+
+  // Point editing on the first (reference) frame
+  const [editView, setEditView] = useState<ViewId | null>(null);
+  const [editPoints, setEditPoints] = useState<TrackingPoint[]>([]);
+  const [editFrame, setEditFrame] = useState<{ image: GrayImage, mask: ImageData, frame: number, ed: boolean } | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+
+  // Frame-by-frame review of a processed view; null shows the final state
+  const [review, setReview] = useState<{ [key in ViewId]: { frame: number, playing: boolean } | null }>(() => createViewRecord(() => null));
 
-  const canvasRefs = {
-    curr: useRef<HTMLCanvasElement>(document.createElement('canvas')),
-    prev: useRef<HTMLCanvasElement>(document.createElement('canvas'))
+  // Apical (longitudinal) or short-axis (circumferential / radial / rotation) viewports
+  const [viewMode, setViewMode] = useState<ViewKind>('apical');
+  const [bullsEyeMode, setBullsEyeMode] = useState<BullsEyeMode>('strain');
+
+  // Saved study sessions
+  const [studies, setStudies] = useState<StudySummary[]>([]);
+  const [showStudies, setShowStudies] = useState(false);
+  const [currentStudy, setCurrentStudy] = useState<{ id: string, name: string, createdAt: number } | null>(null);
+  const [studyBusy, setStudyBusy] = useState(false);
+  const [studyError, setStudyError] = useState<string | null>(null);
+
+  const videoRefs = useRef(createViewRecord(() => createRef<HTMLVideoElement>())).current;
+
+  const poolRef = useRef<MotionPool | null>(null);
+
+  // Rendered charts, captured as SVG for the exported report
+  const chartRefs = {
+    bullsEye: useRef<HTMLDivElement>(null),
+    strain: useRef(createViewRecord(() => createRef<HTMLDivElement>())).current
   };
 
+  useEffect(() => {
+    return () => poolRef.current?.terminate();
+  }, []);
+
   // Initialize Camera on Mount
   useEffect(() => {
     const initCamera = async () => {
@@ -68,6 +155,38 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Review playback steps through the stored frames at the clip's own frame interval
+  useEffect(() => {
+    const timers = VIEW_IDS.filter(v => review[v]?.playing).map(view => {
+      const count = vData[view].history.length;
+      return setInterval(() => {
+        setReview(prev => {
+          const current = prev[view];
+          return current ? { ...prev, [view]: { ...current, frame: (current.frame + 1) % count } } : prev;
+        });
+      }, medianFrameInterval(vData[view].history) * 1000);
+    });
+    return () => timers.forEach(t => clearInterval(t));
+  }, VIEW_IDS.map(v => review[v]?.playing));
+
+  // A new clip, discard or re-run leaves nothing to review
+  useEffect(() => {
+    setReview(prev => {
+      const stale = VIEW_IDS.filter(v => prev[v] && prev[v]!.frame >= vData[v].history.length);
+      return stale.length > 0 ? { ...prev, ...Object.fromEntries(stale.map(v => [v, null])) } : prev;
+    });
+  }, VIEW_IDS.map(v => vData[v].history.length));
+
+  // Keeps the video on the frame being reviewed; DICOM previews redraw from their frame index
+  useEffect(() => {
+    VIEW_IDS.forEach(view => {
+      const current = review[view];
+      const video = videoRefs[view].current;
+      const sample = current ? vData[view].history[current.frame] : null;
+      if (video && sample && Math.abs(video.currentTime - sample.time) > 1e-3) video.currentTime = sample.time;
+    });
+  }, VIEW_IDS.map(v => review[v]?.frame));
+
   // Helper to attach stream to video elements
   const setVideoRef = useCallback((node: HTMLVideoElement | null) => {
     if (node && liveStream) {
@@ -76,7 +195,7 @@ const App: React.FC = () => {
   }, [liveStream]);
 
   // Recording Logic
-  const startRecording = (view: 'a4c' | 'a2c') => {
+  const startRecording = (view: ViewId) => {
     if (!liveStream) return;
     
     recordedChunksRef.current = [];
@@ -92,7 +211,10 @@ const App: React.FC = () => {
       const url = URL.createObjectURL(blob);
       setVData(prev => ({
         ...prev,
-        [view]: { ...prev[view], videoUrl: url, isProcessed: false, progress: 0, history: [], points: [], mask: null }
+        [view]: {
+          ...prev[view], ...createEmptyAnalysis(), videoUrl: url, dicom: null, clip: { kind: 'video', name: `${view}-recording.webm`, blob }, seedPoints: null, seedFrame: 0, calibration: null,
+          isProcessed: false, progress: 0, status: 'idle', error: null
+        }
       }));
     };
 
@@ -109,116 +231,525 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileChange = (view: 'a4c' | 'a2c', e: React.ChangeEvent<HTMLInputElement>) => {
+  // DICOM cine loops are decoded in the browser and bring their own timing and pixel spacing
+  const handleFileChange = async (view: ViewId, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (!file) return;
+    const header = await file.slice(0, 132).arrayBuffer();
+    if (!isDicomFile(header) && !/\.dcm$/i.test(file.name)) {
       const url = URL.createObjectURL(file);
       setVData(prev => ({
         ...prev,
-        [view]: { ...prev[view], videoUrl: url, isProcessed: false, progress: 0, history: [], points: [], mask: null }
+        [view]: {
+          ...prev[view], ...createEmptyAnalysis(), videoUrl: url, dicom: null, clip: { kind: 'video', name: file.name, blob: file }, seedPoints: null, seedFrame: 0, calibration: null,
+          isProcessed: false, progress: 0, status: 'idle', error: null
+        }
+      }));
+      return;
+    }
+    try {
+      const dicom = parseDicom(await file.arrayBuffer());
+      const spacing = getFrameSpacing(dicom, FRAME_WIDTH, FRAME_HEIGHT);
+      const calibration = spacing ? createSpacingCalibration(spacing, { x: 20, y: FRAME_HEIGHT - 20 }) : null;
+      setVData(prev => ({
+        ...prev,
+        [view]: {
+          ...prev[view], ...createEmptyAnalysis(), videoUrl: null, dicom, clip: { kind: 'dicom', name: file.name, blob: file }, seedPoints: null, seedFrame: 0,
+          calibration,
+          isProcessed: false, progress: 0, status: 'idle', error: null
+        }
+      }));
+    } catch (err) {
+      setVData(prev => ({
+        ...prev,
+        [view]: { ...prev[view], status: 'error', error: err instanceof Error ? err.message : String(err) }
       }));
     }
   };
 
-  const processFrame = async (view: 'a4c' | 'a2c', video: HTMLVideoElement) => {
-    const curr = canvasRefs.curr.current;
-    const prev = canvasRefs.prev.current;
-    const currCtx = curr.getContext('2d', { willReadFrequently: true });
-    const prevCtx = prev.getContext('2d', { willReadFrequently: true });
-    if (!currCtx || !prevCtx) return;
-
-    prev.width = 600;
-    prev.height = 450;
-    prevCtx.drawImage(curr, 0, 0);
-
-    curr.width = 600;
-    curr.height = 450;
-    currCtx.drawImage(video, 0, 0, 600, 450);
-    const imgData = currCtx.getImageData(0, 0, 600, 450);
-    enhanceContrast(imgData.data);
-    currCtx.putImageData(imgData, 0, 0);
-
+  // Folds one worker result into the view's accumulated analysis
+  const applyFrameOutput = (view: ViewId, output: FrameOutput, time: number, progress: number) => {
     setVData(prevData => {
       const viewData = prevData[view];
-      let newPoints = [...viewData.points];
-
-      if (newPoints.length === 0) {
-        newPoints = autoDetectWalls(currCtx, 600, 450, viewData.roi);
-      } else {
-        newPoints = newPoints.map(pt => {
-          const nextPos = trackSpeckle(prevCtx, currCtx, pt.current, 14, 28);
-          const center = viewData.roi ? { x: viewData.roi.x + viewData.roi.w / 2, y: viewData.roi.y + viewData.roi.h / 2 } : { x: 300, y: 225 };
-          const distInitial = Math.sqrt(Math.pow(pt.initial.x - center.x, 2) + Math.pow(pt.initial.y - center.y, 2));
-          const distCurrent = Math.sqrt(Math.pow(nextPos.x - center.x, 2) + Math.pow(nextPos.y - center.y, 2));
-          const localStrain = ((distCurrent - (distInitial || 1)) / (distInitial || 1)) * -100;
-          return { ...pt, current: nextPos, strain: localStrain };
-        });
-      }
-
-      const area = calculateArea(newPoints.map(p => p.current));
-      const avgStrain = newPoints.reduce((acc, p) => acc + p.strain, 0) / (newPoints.length || 1);
-      const newMask = createDiagnosticMask(currCtx, 600, 450, avgStrain, viewData.roi);
-
       return {
         ...prevData,
         [view]: {
-          ...viewData,
-          points: newPoints,
-          mask: newMask,
-          maxArea: Math.max(viewData.maxArea, area),
-          minArea: area > 0 ? Math.min(viewData.minArea, area) : viewData.minArea,
-          history: [...viewData.history, { time: video.currentTime, strain: avgStrain }].slice(-100),
-          progress: (video.currentTime / video.duration) * 100
+          ...accumulateFrame(viewData, output, time),
+          mask: new ImageData(output.mask as Uint8ClampedArray<ArrayBuffer>, FRAME_WIDTH, FRAME_HEIGHT),
+          maskFrames: [...viewData.maskFrames, packMask(output.mask, FRAME_WIDTH, FRAME_HEIGHT)],
+          progress
         }
       };
     });
   };
 
-  const runBiplaneAnalysis = async () => {
-    setIsProcessing(true);
-    const views: ('a4c' | 'a2c')[] = ['a4c', 'a2c'];
+  // Appends one frame of the atrial job; its frames arrive in the same order as the LV's
+  const applyAtrialOutput = (view: ViewId, output: FrameOutput, time: number) => {
+    setVData(prevData => {
+      const atrium = prevData[view].atrium;
+      const sample = {
+        time,
+        strain: output.gls,
+        ...measureAtrialFrame(output.points.map(p => p.current)),
+        points: output.points.map(p => ({ id: p.id, x: p.current.x, y: p.current.y, quality: p.quality }))
+      };
+      return {
+        ...prevData,
+        [view]: { ...prevData[view], atrium: { points: output.points, walls: output.walls, history: [...(atrium?.history ?? []), sample] } }
+      };
+    });
+  };
 
-    for (const view of views) {
-      const video = videoRefs[view].current;
-      if (!video || !vData[view].roi) continue;
+  // Reads the clip frame by frame from `startFrame` and streams the frames to a pooled worker;
+  // reading the next frame overlaps with tracking of the previous one. On cancel or failure the
+  // view is rolled back to the state it had before the run. Resolves true when it completed.
+  const analyzeView = async (view: ViewId, source: FrameSource, control: AnalysisControl, seedPoints: TrackingPoint[] | null, startFrame: number): Promise<boolean> => {
+    const snapshot = vData[view];
+    const first = Math.max(0, Math.min(startFrame, source.frameCount - 1));
+    setVData(prev => ({
+      ...prev,
+      [view]: { ...prev[view], ...createEmptyAnalysis(), startFrame: first, isProcessed: false, progress: 0, status: 'running', error: null }
+    }));
 
-      video.currentTime = 0;
-      await new Promise(r => video.onseeked = r);
+    if (!poolRef.current) poolRef.current = createMotionPool();
+    const job = poolRef.current.startJob({ view, chamber: 'ventricle', roi: vData[view].roi, settings: trackingSettings, fps: source.fps, seedPoints });
+    // The LA ROI is tracked by a second job on copies of the same frames
+    const laRoi = hasAtrium(view) ? vData[view].laRoi : null;
+    const atrialJob = laRoi
+      ? poolRef.current.startJob({ view, chamber: 'atrium', roi: laRoi, settings: trackingSettings, fps: source.fps, seedPoints: null })
+      : null;
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_WIDTH;
+    canvas.height = FRAME_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const inFlight: Promise<void>[] = [];
 
-      while (video.currentTime < video.duration) {
-        await processFrame(view, video);
-        video.currentTime += (1 / FPS);
-        await new Promise(r => setTimeout(r, 10)); 
+    try {
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+      for (let i = first; i < source.frameCount; i++) {
+        await control.checkpoint();
+        await source.drawFrame(i, ctx, FRAME_WIDTH, FRAME_HEIGHT);
+        const time = source.timeAt(i);
+        const progress = ((i - first + 1) / (source.frameCount - first)) * 100;
+        const frame = ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+        if (atrialJob) {
+          inFlight.push(atrialJob.processFrame(new ImageData(new Uint8ClampedArray(frame.data), FRAME_WIDTH, FRAME_HEIGHT)).then(output => {
+            if (!control.signal.aborted) applyAtrialOutput(view, output, time);
+          }));
+        }
+        inFlight.push(job.processFrame(frame).then(output => {
+          if (!control.signal.aborted) applyFrameOutput(view, output, time, progress);
+        }));
+        if (inFlight.length >= MAX_FRAMES_IN_FLIGHT) await inFlight.shift();
       }
-
+      await Promise.all(inFlight);
+      await control.checkpoint();
+    } catch (err) {
+      // Pending frames reject once the job is cancelled; their errors are superseded by err
+      inFlight.forEach(p => p.catch(() => undefined));
+      await Promise.all([job.cancel(), atrialJob?.cancel()]);
+      const cancelled = err instanceof AnalysisCancelledError || err instanceof JobCancelledError;
       setVData(prev => ({
         ...prev,
-        [view]: { 
-          ...prev[view], 
-          isProcessed: true,
-          ef: prev[view].maxArea > 0 ? ((prev[view].maxArea - prev[view].minArea) / prev[view].maxArea) * 100 : 0
+        [view]: {
+          ...snapshot,
+          seedPoints: prev[view].seedPoints,
+          seedFrame: prev[view].seedFrame,
+          progress: 0,
+          status: cancelled ? 'cancelled' : 'error',
+          error: cancelled ? null : (err instanceof Error ? err.message : String(err))
         }
       }));
+      return false;
+    }
+    job.finish();
+    atrialJob?.finish();
+
+    setVData(prev => ({
+      ...prev,
+      [view]: { ...finalizeView(prev[view], view, prev[view].roi, trackingSettings), isProcessed: true, status: 'done' }
+    }));
+    return true;
+  };
+
+  const createFrameSource = (view: ViewId, signal: AbortSignal): FrameSource | null => {
+    const { dicom } = vData[view];
+    const video = videoRefs[view].current;
+    if (dicom) return createDicomFrameSource(dicom);
+    return video ? createVideoFrameSource(video, FPS, signal, SEEK_TIMEOUT_MS) : null;
+  };
+
+  // Tracks the given views, then rebuilds the biplane result from every processed view.
+  // Seed overrides take effect before the state update that stores them has landed.
+  const runAnalysis = async (views: ViewId[], seedOverrides: { [key in ViewId]?: { points: TrackingPoint[] | null, frame: number } } = {}) => {
+    setIsProcessing(true);
+    setReview(prev => ({ ...prev, ...Object.fromEntries(views.map(v => [v, null])) }));
+    setIsPaused(false);
+    const control = createAnalysisControl();
+    controlRef.current = control;
+
+    const completed = await Promise.all(views.map(view => {
+      const source = createFrameSource(view, control.signal);
+      if (!vData[view].roi || !source) return Promise.resolve(false);
+      const seeds = seedOverrides[view] ?? { points: vData[view].seedPoints, frame: vData[view].seedFrame };
+      // Without seeds the points are detected on the first frame, so tracking starts there
+      return analyzeView(view, source, control, seeds.points, seeds.points ? seeds.frame : 0);
+    }));
+
+    controlRef.current = null;
+    setIsPaused(false);
+    if (control.signal.aborted || !completed.some(Boolean)) {
+      setIsProcessing(false);
+      return;
     }
 
     setVData(finalData => {
-      const efA4c = finalData.a4c.ef;
-      const efA2c = finalData.a2c.ef;
-      const biplaneEf = (efA4c + efA2c) / 2;
+      const processed = VIEW_IDS.map(v => finalData[v]).filter(v => v.isProcessed);
+      const apical = VIEWS.filter(v => v.kind === 'apical' && finalData[v.id].isProcessed).map(v => finalData[v.id]);
+      const shortAxisLevels = VIEWS.filter(v => v.kind === 'short-axis' && finalData[v.id].isProcessed)
+        .map(v => ({ view: v.id as ShortAxisView, level: v.level!, analysis: finalData[v.id] }));
+      const rv = VIEWS.find(v => v.kind === 'right-ventricle' && finalData[v.id].isProcessed);
+      const atria = VIEWS.filter(v => v.atrium && finalData[v.id].isProcessed).map(v => ({ view: v.id as ApicalView, analysis: finalData[v.id] }));
+      // Simpson's biplane volumes come from the 4- and 2-chamber views
+      const beatVolumes = computeBeatVolumes(
+        finalData.a4c.isProcessed ? finalData.a4c : null,
+        finalData.a2c.isProcessed ? finalData.a2c : null
+      );
+      const volumes = averageVolumes(beatVolumes);
+      // A heart rate recorded in the DICOM header outranks the clip's own estimate
+      const hrEstimate = pickHeartRate(
+        processed.map(v => {
+          const clip = estimateHeartRate(v.history, v.beats);
+          return v.dicom?.heartRate ? taggedHeartRate(v.dicom.heartRate, clip) : clip;
+        })
+      );
 
+      const segmentQuality = combineSegmentQuality(apical);
       setAnalysis({
-        biplaneEf,
-        a4c: finalData.a4c,
-        a2c: finalData.a2c,
-        hr: 74,
+        biplaneEf: volumes ? volumes.ef : 0,
+        volumes,
+        beatVolumes,
+        views: finalData,
+        gls: averageGls(apical),
+        strainRate: averageStrainRates(apical.map(v => v.strainRate).filter(Boolean)),
+        shortAxis: summarizeShortAxis(shortAxisLevels, apical),
+        rightVentricle: rv ? summarizeRightVentricle(finalData[rv.id], finalData[rv.id].roi, trackingSettings) : null,
+        leftAtrium: summarizeLeftAtrium(atria),
+        timing: computeMechanicalDispersion(apical, segmentQuality),
+        work: bloodPressure ? computeMyocardialWork(apical, bloodPressure, valveOverride, segmentQuality) : null,
+        hr: hrOverride ?? hrEstimate?.bpm ?? 0,
+        hrEstimate,
+        hrManual: hrOverride !== null,
+        tracking: trackingSettings,
         timestamp: Date.now(),
-        segments: { detailed: Array.from({ length: 17 }).map(() => -18 + Math.random() * 8) }
+        sources: dicomSources(finalData),
+        segments: {
+          detailed: computeSegmentalStrain(apical),
+          quality: segmentQuality
+        }
       });
       return finalData;
     });
     setIsProcessing(false);
   };
 
+  const buildSession = (name: string): StudySession => {
+    const now = Date.now();
+    const toSessionView = (view: ViewId): SessionView => {
+      const { videoUrl, dicom, clip, roi, laRoi, seedPoints, seedFrame, isProcessed, progress, status, error, mask, maskFrames, ...rest } = vData[view];
+      return { clip, roi, laRoi, seedPoints, seedFrame, isProcessed, analysis: rest };
+    };
+    let result: StudySession['result'] = null;
+    if (analysis) {
+      const { views, ...rest } = analysis;
+      result = rest;
+    }
+    return {
+      id: currentStudy?.id ?? createStudyId(),
+      name,
+      createdAt: currentStudy?.createdAt ?? now,
+      updatedAt: now,
+      views: createViewRecord(toSessionView),
+      result,
+      hrOverride,
+      bloodPressure,
+      valveOverride,
+      tracking: trackingSettings
+    };
+  };
+
+  // Puts a saved session back on screen; clips are reloaded from the stored bytes
+  const restoreSession = async (session: StudySession) => {
+    const restoreView = async (view: ViewId): Promise<ViewState> => {
+      if (!session.views[view]) return createViewState();
+      const { clip, roi, laRoi, seedPoints, seedFrame, isProcessed, analysis: saved } = session.views[view]!;
+      return {
+        ...saved,
+        startFrame: saved.startFrame ?? 0,
+        mask: null,
+        maskFrames: [],
+        quality: saved.quality ?? null,
+        atrium: saved.atrium ?? null,
+        strainRate: saved.strainRate ?? null,
+        videoUrl: clip?.kind === 'video' ? URL.createObjectURL(clip.blob) : null,
+        dicom: clip?.kind === 'dicom' ? parseDicom(await clip.blob.arrayBuffer()) : null,
+        clip,
+        roi,
+        laRoi: laRoi ?? null,
+        seedPoints: seedPoints ?? null,
+        seedFrame: seedFrame ?? 0,
+        isProcessed,
+        progress: isProcessed ? 100 : 0,
+        status: (isProcessed ? 'done' : 'idle') as ViewStatus,
+        error: null
+      };
+    };
+    const views = createViewRecord(createViewState);
+    for (const view of VIEW_IDS) views[view] = await restoreView(view);
+    setVData(views);
+    // Studies saved before tracking QC or the averaged GLS lack those fields
+    setAnalysis(session.result
+      ? {
+        ...session.result,
+        gls: session.result.gls ?? averageGls(VIEWS.filter(v => v.kind === 'apical').map(v => views[v.id]).filter(v => v.isProcessed)),
+        shortAxis: session.result.shortAxis ?? null,
+        rightVentricle: session.result.rightVentricle ?? null,
+        leftAtrium: session.result.leftAtrium ?? null,
+        timing: session.result.timing ?? null,
+        work: session.result.work ?? null,
+        strainRate: session.result.strainRate ?? null,
+        sources: session.result.sources ?? dicomSources(views),
+        segments: { ...session.result.segments, quality: session.result.segments.quality ?? Array(17).fill(null) },
+        views
+      }
+      : null);
+    setHrOverride(session.hrOverride);
+    setBloodPressure(session.bloodPressure ?? null);
+    setBpText(session.bloodPressure ? `${session.bloodPressure.systolic}/${session.bloodPressure.diastolic}` : '');
+    setValveOverride(session.valveOverride ?? {});
+    setTrackingSettings({ ...DEFAULT_TRACKING_SETTINGS, ...session.tracking });
+    setCurrentStudy({ id: session.id, name: session.name, createdAt: session.createdAt });
+    setReview(createViewRecord(() => null));
+    cancelEditing();
+  };
+
+  // Runs one study store operation, surfacing its failure in the panel
+  const withStudyStore = async (run: () => Promise<void>) => {
+    setStudyBusy(true);
+    setStudyError(null);
+    try {
+      await run();
+      setStudies(await listStudies());
+    } catch (err) {
+      setStudyError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setStudyBusy(false);
+    }
+  };
+
+  const toggleStudies = () => {
+    if (!showStudies) withStudyStore(async () => undefined); // just refreshes the list
+    setShowStudies(!showStudies);
+  };
+
+  const saveCurrentStudy = (name: string) => withStudyStore(async () => {
+    const session = buildSession(name);
+    await saveStudy(session);
+    setCurrentStudy({ id: session.id, name: session.name, createdAt: session.createdAt });
+  });
+
+  const openStudy = (id: string) => withStudyStore(async () => {
+    const session = await loadStudy(id);
+    if (!session) throw new Error('Study no longer exists');
+    await restoreSession(session);
+    setShowStudies(false);
+  });
+
+  const exportStudy = (id: string) => withStudyStore(async () => {
+    const session = await loadStudy(id);
+    if (!session) throw new Error('Study no longer exists');
+    downloadBlob(exportStudyFile(session), `${session.name.replace(/[^\w-]+/g, '_')}${STUDY_FILE_EXTENSION}`);
+  });
+
+  const removeStudy = (id: string) => withStudyStore(async () => {
+    await deleteStudy(id);
+    if (currentStudy?.id === id) setCurrentStudy(null);
+  });
+
+  const importStudy = (file: File) => withStudyStore(async () => {
+    const session = await importStudyFile(file);
+    await saveStudy(session);
+    await restoreSession(session);
+    setShowStudies(false);
+  });
+
+  const runFullAnalysis = () => runAnalysis(VIEW_IDS);
+
+  // Opens the end-diastolic frame of a tracked view (the first frame before tracking) for editing, starting
+  // from the seeds placed on that frame, the points tracked to it or a fresh detection
+  const startEditing = async (view: ViewId) => {
+    const source = createFrameSource(view, new AbortController().signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_WIDTH;
+    canvas.height = FRAME_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!source || !ctx) return;
+    const v = vData[view];
+    const ed = v.isProcessed && v.beats.length > 0;
+    const frame = ed ? v.startFrame + v.beats[0].edFrame : v.seedFrame;
+    try {
+      await source.drawFrame(frame, ctx, FRAME_WIDTH, FRAME_HEIGHT);
+    } catch (err) {
+      setVData(prev => ({ ...prev, [view]: { ...prev[view], status: 'error', error: err instanceof Error ? err.message : String(err) } }));
+      return;
+    }
+    const rgba = ctx.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT).data;
+    const image = toGrayscale(rgba, FRAME_WIDTH, FRAME_HEIGHT);
+    enhanceContrast(image.data);
+
+    const { roi, seedPoints, seedFrame, points, history, startFrame } = v;
+    const sample = history[frame - startFrame];
+    const tracked = sample ? points.map(p => {
+      const pos = sample.points.find(s => s.id === p.id);
+      return pos ? { ...p, initial: { x: pos.x, y: pos.y } } : p;
+    }) : [];
+    const initial = seedPoints && seedFrame === frame ? seedPoints : tracked.length > 0 ? tracked : autoDetectWalls(image, roi);
+    const mask = new ImageData(createDiagnosticMask(image, -20, roi) as Uint8ClampedArray<ArrayBuffer>, FRAME_WIDTH, FRAME_HEIGHT);
+    setEditFrame({ image, mask, frame, ed });
+    const video = videoRefs[view].current;
+    if (video) video.currentTime = source.timeAt(frame);
+    setEditPoints(initial.map(resetPoint));
+    setEditView(view);
+    setCalibrationView(null);
+    setAtrialRoiView(null);
+    closeReview(view);
+  };
+
+  const cancelEditing = () => {
+    setEditView(null);
+    setEditPoints([]);
+    setEditFrame(null);
+  };
+
+  // Keeps the edited points as seeds on their frame; a processed view is re-tracked from them straight away,
+  // so tracking and strain start at the end-diastolic frame
+  const applyEdits = () => {
+    if (!editView || !editFrame) return;
+    const view = editView;
+    const seeds = editPoints;
+    const frame = editFrame.frame;
+    setVData(prev => ({ ...prev, [view]: { ...prev[view], seedPoints: seeds, seedFrame: frame } }));
+    cancelEditing();
+    if (vData[view].isProcessed) runAnalysis([view], { [view]: { points: seeds, frame } });
+  };
+
+  const redetectEditPoints = () => {
+    if (!editView || !editFrame) return;
+    setEditPoints(autoDetectWalls(editFrame.image, vData[editView].roi));
+  };
+
+  const setReviewFrame = (view: ViewId, frame: number) => {
+    setReview(prev => ({ ...prev, [view]: { frame, playing: prev[view]?.playing ?? false } }));
+  };
+
+  const toggleReviewPlayback = (view: ViewId) => {
+    setReview(prev => ({ ...prev, [view]: { frame: prev[view]?.frame ?? 0, playing: !prev[view]?.playing } }));
+  };
+
+  const closeReview = (view: ViewId) => setReview(prev => ({ ...prev, [view]: null }));
+
+  // Tracked points and edge mask as they were on the reviewed frame
+  const getReviewOverlay = (view: ViewId, frame: number) => {
+    const { history, maskFrames, points } = vData[view];
+    const sample = history[frame];
+    const minQuality = analysis ? analysis.tracking.minQuality : trackingSettings.minQuality;
+    const byId = new Map<string, TrackingPoint>(points.map((p: TrackingPoint) => [p.id, p]));
+    const framePoints = sample.points
+      .filter(tp => byId.has(tp.id))
+      .map(tp => ({ ...byId.get(tp.id)!, current: { x: tp.x, y: tp.y }, quality: tp.quality, lowQuality: tp.quality < minQuality }));
+    const stored = maskFrames[frame];
+    const mask = stored
+      ? new ImageData(unpackMask(stored, sample.strain, FRAME_WIDTH, FRAME_HEIGHT) as Uint8ClampedArray<ArrayBuffer>, FRAME_WIDTH, FRAME_HEIGHT)
+      : null;
+    return { points: framePoints, mask };
+  };
+
+  // Atrial points where they sat on the reviewed frame, or their final positions
+  const getAtrialPoints = (view: ViewId): TrackingPoint[] => {
+    const atrium = vData[view].atrium;
+    if (!atrium) return [];
+    const sample = review[view] ? atrium.history[review[view]!.frame] : null;
+    if (!sample) return atrium.points;
+    const positions = new Map<string, { x: number, y: number }>(sample.points.map(p => [p.id, p]));
+    return atrium.points.filter(p => positions.has(p.id)).map(p => ({ ...p, current: { x: positions.get(p.id)!.x, y: positions.get(p.id)!.y } }));
+  };
+
+  const getEditWalls = (view: ViewId) => {
+    return layoutPoints(view, editPoints, vData[view].roi || { x: 0, y: 0, w: FRAME_WIDTH, h: FRAME_HEIGHT }).walls;
+  };
+
+  const togglePause = () => {
+    const control = controlRef.current;
+    if (!control) return;
+    if (control.isPaused()) control.resume();
+    else control.pause();
+    setIsPaused(control.isPaused());
+  };
+
+  const cancelAnalysis = () => {
+    controlRef.current?.cancel();
+  };
+
+  const applyHrOverride = (value: number | null) => {
+    const bpm = value !== null && value > 0 ? value : null;
+    setHrOverride(bpm);
+    setAnalysis(prev => prev ? { ...prev, hr: bpm ?? prev.hrEstimate?.bpm ?? 0, hrManual: bpm !== null } : prev);
+  };
+
+  // Myocardial work follows the cuff pressure and valve events without re-tracking
+  const updateWork = (bp: BloodPressure | null, valves: Partial<ValveTimings>) => {
+    setAnalysis(prev => {
+      if (!prev) return prev;
+      const apical = VIEWS.filter(v => v.kind === 'apical').map(v => prev.views[v.id]);
+      return { ...prev, work: bp ? computeMyocardialWork(apical, bp, valves, prev.segments.quality) : null };
+    });
+  };
+
+  // Cuff pressure as "systolic/diastolic"; anything else leaves the last valid value in place
+  const applyBloodPressure = (text: string) => {
+    setBpText(text);
+    const match = text.match(/^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/);
+    const bp = match ? { systolic: parseFloat(match[1]), diastolic: parseFloat(match[2]) } : null;
+    if (text.trim() !== '' && (!bp || bp.systolic <= bp.diastolic)) return;
+    setBloodPressure(bp);
+    updateWork(bp, valveOverride);
+  };
+
+  // Places a valve event at the reviewed frame, relative to the end-diastole of its beat
+  const markValveEvent = (view: ViewId, event: ValveEvent) => {
+    const frame = review[view]?.frame;
+    const sample = frame !== undefined ? vData[view].history[frame] : undefined;
+    if (frame === undefined || !sample) return;
+    const beat = vData[view].beats.find(b => frame >= b.edFrame && frame <= b.endFrame);
+    const edTime = beat ? beat.edTime : vData[view].history[0].time;
+    const valves = { ...valveOverride, [event]: (sample.time - edTime) * 1000 };
+    setValveOverride(valves);
+    updateWork(bloodPressure, valves);
+  };
+
+  const resetValveEvents = () => {
+    setValveOverride({});
+    updateWork(bloodPressure, {});
+  };
+
+  const collectReportCharts = (): ReportCharts => ({
+    bullsEye: captureSvg(chartRefs.bullsEye.current),
+    strain: createViewRecord(v => captureSvg(chartRefs.strain[v].current))
+  });
+
+  // Why the SR cannot be filed with the patient's study, shown instead of exporting it
+  const srProblem = analysis ? dicomSrProblem(analysis) : null;
+
   const getLogicalCoords = (e: React.MouseEvent, element: HTMLElement) => {
     const rect = element.getBoundingClientRect();
     const x = (e.clientX - rect.left) * (600 / rect.width);
@@ -226,40 +757,84 @@ const App: React.FC = () => {
     return { x, y };
   };
 
-  const handleMouseDown = (view: 'a4c' | 'a2c', e: React.MouseEvent<HTMLDivElement>) => {
-    if (isProcessing || isRecording || !vData[view].videoUrl) return;
+  const handleMouseDown = (view: ViewId, e: React.MouseEvent<HTMLDivElement>) => {
+    if (isProcessing || isRecording || editView === view || (!vData[view].videoUrl && !vData[view].dicom)) return;
     const coords = getLogicalCoords(e, e.currentTarget);
+    if (calibrationView === view) {
+      setCalibrationLine({ start: coords, end: coords });
+      setIsDrawingCalibration(true);
+      return;
+    }
     setRoiStart(coords);
     setIsDrawingRoi(true);
     setTargetView(view);
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isDrawingCalibration) {
+      const end = getLogicalCoords(e, e.currentTarget);
+      setCalibrationLine(prev => prev ? { ...prev, end } : prev);
+      return;
+    }
     if (!isDrawingRoi || !roiStart || !targetView) return;
     const coords = getLogicalCoords(e, e.currentTarget);
+    const roi = {
+      x: Math.min(roiStart.x, coords.x),
+      y: Math.min(roiStart.y, coords.y),
+      w: Math.abs(roiStart.x - coords.x),
+      h: Math.abs(roiStart.y - coords.y)
+    };
     setVData(prev => ({
       ...prev,
-      [targetView]: {
-        ...prev[targetView],
-        roi: {
-          x: Math.min(roiStart.x, coords.x),
-          y: Math.min(roiStart.y, coords.y),
-          w: Math.abs(roiStart.x - coords.x),
-          h: Math.abs(roiStart.y - coords.y)
-        }
-      }
+      [targetView]: atrialRoiView === targetView
+        ? { ...prev[targetView], laRoi: roi }
+        : { ...prev[targetView], seedPoints: null, seedFrame: 0, roi } // seeds belong to the old ROI
     }));
   };
 
   const handleMouseUp = () => {
+    if (isDrawingRoi && atrialRoiView === targetView) setAtrialRoiView(null);
+    setIsDrawingCalibration(false);
     setIsDrawingRoi(false);
     setRoiStart(null);
     setTargetView(null);
   };
 
-  const renderViewport = (view: 'a4c' | 'a2c', label: string) => {
+  const toggleAtrialRoi = (view: ViewId) => {
+    if (editView) cancelEditing();
+    setCalibrationView(null);
+    setAtrialRoiView(atrialRoiView === view ? null : view);
+  };
+
+  const clearAtrialRoi = (view: ViewId) => {
+    setVData(prev => ({ ...prev, [view]: { ...prev[view], laRoi: null } }));
+  };
+
+  const toggleCalibration = (view: ViewId) => {
+    if (editView) cancelEditing();
+    setAtrialRoiView(null);
+    setCalibrationView(calibrationView === view ? null : view);
+    setCalibrationLine(null);
+    setCalibrationCm('');
+  };
+
+  const confirmCalibration = (view: ViewId) => {
+    if (!calibrationLine) return;
+    const calibration = createCalibration(calibrationLine.start, calibrationLine.end, parseFloat(calibrationCm));
+    if (!calibration) return;
+    setVData(prev => ({ ...prev, [view]: { ...prev[view], calibration } }));
+    setCalibrationView(null);
+    setCalibrationLine(null);
+    setCalibrationCm('');
+  };
+
+  const renderViewport = (view: ViewId, label: string) => {
     const isCurrentRecording = recordingTarget === view;
-    const hasVideo = !!vData[view].videoUrl;
+    const shortAxis = isShortAxis(view);
+    const rightVentricle = isRightVentricle(view);
+    const rv = rightVentricle ? analysis?.rightVentricle ?? null : null;
+    const atrialStrain = analysis?.leftAtrium?.views.find(v => v.view === view) ?? null;
+    const hasVideo = !!vData[view].videoUrl || !!vData[view].dicom;
     
     return (
       <div className="flex flex-col gap-4">
@@ -269,7 +844,44 @@ const App: React.FC = () => {
             {label}
           </h3>
           <div className="flex items-center gap-2">
-            {vData[view].isProcessed && <span className="text-[10px] font-bold text-emerald-400 flex items-center gap-1"><CheckCircle2 size={12} /> PROCESSED</span>}
+            {vData[view].status === 'running' && (
+              <span className="text-[10px] font-bold text-blue-400 flex items-center gap-1 tabular-nums">
+                {isPaused ? <Pause size={12} /> : <Loader2 size={12} className="animate-spin" />} {isPaused ? 'PAUSED' : 'RUNNING'} {vData[view].progress.toFixed(0)}%
+              </span>
+            )}
+            {vData[view].status === 'cancelled' && <span className="text-[10px] font-bold text-amber-400 flex items-center gap-1"><X size={12} /> CANCELLED</span>}
+            {vData[view].status === 'error' && <span className="text-[10px] font-bold text-red-400 flex items-center gap-1"><Info size={12} /> FAILED</span>}
+            {vData[view].isProcessed && vData[view].status !== 'running' && <span className="text-[10px] font-bold text-emerald-400 flex items-center gap-1"><CheckCircle2 size={12} /> PROCESSED</span>}
+            {hasVideo && !isProcessing && (
+              <button
+                onClick={() => toggleCalibration(view)}
+                className={`text-[10px] px-2 py-0.5 rounded flex items-center gap-1 transition-all font-bold border ${calibrationView === view ? 'bg-amber-500 text-slate-950 border-amber-400' : 'bg-slate-800 hover:bg-slate-700 text-amber-400 border-amber-500/20'}`}
+              >
+                <Ruler size={10} /> {vData[view].calibration ? `${vData[view].calibration!.mmPerPixel.toFixed(3)} MM/PX${vData[view].calibration!.source === 'dicom' ? ' (DICOM)' : ''}` : 'CALIBRATE'}
+              </button>
+            )}
+            {hasVideo && !isProcessing && hasAtrium(view) && (
+              <span className="flex items-center">
+                <button
+                  onClick={() => toggleAtrialRoi(view)}
+                  className={`text-[10px] px-2 py-0.5 rounded flex items-center gap-1 transition-all font-bold border ${atrialRoiView === view ? 'bg-fuchsia-500 text-slate-950 border-fuchsia-400' : 'bg-slate-800 hover:bg-slate-700 text-fuchsia-400 border-fuchsia-500/20'}`}
+                >
+                  <ScanLine size={10} /> {atrialRoiView === view ? 'DRAW LA ROI' : 'LA ROI'}
+                </button>
+                {vData[view].laRoi && atrialRoiView !== view && (
+                  <button onClick={() => clearAtrialRoi(view)} title="Remove LA ROI" className="text-slate-500 hover:text-red-400 ml-1"><X size={12} /></button>
+                )}
+              </span>
+            )}
+            {hasVideo && !isProcessing && vData[view].roi && editView !== view && (
+              <button
+                onClick={() => startEditing(view)}
+                disabled={editView !== null}
+                className="text-[10px] px-2 py-0.5 rounded flex items-center gap-1 transition-all font-bold border bg-slate-800 hover:bg-slate-700 text-sky-400 border-sky-500/20 disabled:opacity-40"
+              >
+                <Pencil size={10} /> {vData[view].seedPoints ? `POINTS (${vData[view].seedPoints!.length})` : 'EDIT POINTS'}
+              </button>
+            )}
             {!hasVideo && !isRecording && liveStream && (
                <button 
                 onClick={() => startRecording(view)}
@@ -288,7 +900,10 @@ const App: React.FC = () => {
             )}
             {hasVideo && (
               <button 
-                onClick={() => setVData(prev => ({ ...prev, [view]: { ...prev[view], videoUrl: null, points: [], mask: null, isProcessed: false, ef: 0, history: [] } }))}
+                onClick={() => {
+                  if (editView === view) cancelEditing();
+                  setVData(prev => ({ ...prev, [view]: { ...prev[view], ...createEmptyAnalysis(), videoUrl: null, dicom: null, clip: null, seedPoints: null, seedFrame: 0, calibration: null, isProcessed: false, status: 'idle', error: null } }));
+                }}
                 className="text-[10px] bg-slate-800 hover:bg-red-900/40 text-slate-400 hover:text-red-400 px-2 py-0.5 rounded flex items-center gap-1 transition-all"
               >
                 <X size={10} /> DISCARD
@@ -331,10 +946,22 @@ const App: React.FC = () => {
                   <div className="w-1.5 h-1.5 rounded-full bg-white" /> LIVE CAPTURE
                 </div>
               )}
+
+              {vData[view].status === 'error' && vData[view].error && (
+                <div className="absolute top-3 left-3 right-3 z-30 bg-red-950/90 border border-red-500/40 text-red-300 text-[10px] font-bold px-3 py-2 rounded-lg flex items-start gap-2">
+                  <Info size={12} className="shrink-0 mt-0.5" />
+                  <span className="flex-1">Import failed: {vData[view].error}.</span>
+                  <button onClick={() => setVData(prev => ({ ...prev, [view]: { ...prev[view], status: 'idle', error: null } }))} className="text-red-400 hover:text-white"><X size={12} /></button>
+                </div>
+              )}
             </div>
           ) : (
             <>
-              <video ref={videoRefs[view]} src={vData[view].videoUrl || undefined} muted playsInline className="w-full h-full object-contain pointer-events-none opacity-50" />
+              {vData[view].dicom ? (
+                <DicomPreview cine={vData[view].dicom!} frameIndex={editView === view && editFrame ? editFrame.frame : review[view] ? vData[view].startFrame + review[view]!.frame : 0} width={600} height={450} />
+              ) : (
+                <video ref={videoRefs[view]} src={vData[view].videoUrl || undefined} muted playsInline className="w-full h-full object-contain pointer-events-none opacity-50" />
+              )}
               <div 
                 className={`absolute inset-0 z-10 ${!isProcessing ? 'cursor-crosshair' : ''}`}
                 onMouseDown={(e) => handleMouseDown(view, e)}
@@ -343,7 +970,40 @@ const App: React.FC = () => {
                 onMouseLeave={handleMouseUp}
               >
                 <div className="relative w-full h-full">
-                  <TrackingOverlay mask={vData[view].mask} points={vData[view].points} width={600} height={450} />
+                  {editView === view ? (
+                    <TrackingOverlay
+                      mask={editFrame?.mask ?? null}
+                      points={editPoints}
+                      walls={getEditWalls(view)}
+                      width={600}
+                      height={450}
+                      editable
+                      onPointsChange={setEditPoints}
+                      snap={(p) => (snapEnabled && editFrame ? snapToEdge(editFrame.image, p) : p)}
+                    />
+                  ) : review[view] && vData[view].history[review[view]!.frame] ? (
+                    <TrackingOverlay {...getReviewOverlay(view, review[view]!.frame)} walls={vData[view].walls} width={600} height={450} />
+                  ) : (
+                    <TrackingOverlay mask={vData[view].mask} points={vData[view].points} walls={vData[view].walls} width={600} height={450} />
+                  )}
+                  {vData[view].atrium && editView !== view && (
+                    <div className="absolute inset-0 pointer-events-none">
+                      <TrackingOverlay mask={null} points={getAtrialPoints(view)} walls={vData[view].atrium!.walls} width={600} height={450} />
+                    </div>
+                  )}
+                  {editView === view && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 bg-slate-900/90 backdrop-blur-md px-3 py-2 rounded-xl border border-sky-500/30 flex items-center gap-3 whitespace-nowrap" onMouseDown={(e) => e.stopPropagation()}>
+                      <span className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">{editFrame?.ed ? 'ED ' : ''}frame {(editFrame?.frame ?? 0) + 1} · {editPoints.length} pts · drag / click / right-click</span>
+                      <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400">
+                        <input type="checkbox" checked={snapEnabled} onChange={(e) => setSnapEnabled(e.target.checked)} /> Snap
+                      </label>
+                      <button onClick={redetectEditPoints} className="text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-0.5 rounded font-bold">AUTO</button>
+                      <button onClick={cancelEditing} className="text-[10px] bg-slate-800 hover:bg-slate-700 text-slate-300 px-2 py-0.5 rounded font-bold">CANCEL</button>
+                      <button onClick={applyEdits} className="text-[10px] bg-sky-500 hover:bg-sky-400 text-slate-950 px-2 py-0.5 rounded font-bold">
+                        {vData[view].isProcessed ? 'APPLY & RE-TRACK' : 'APPLY'}
+                      </button>
+                    </div>
+                  )}
                   {vData[view].roi && (
                     <div 
                       className="absolute border-2 border-dashed border-blue-400 bg-blue-500/5 pointer-events-none rounded-lg z-20 shadow-[0_0_15px_rgba(59,130,246,0.2)]"
@@ -354,10 +1014,59 @@ const App: React.FC = () => {
                         height: `${(vData[view].roi!.h / 450) * 100}%` 
                       }}
                     >
-                      <div className="absolute -top-6 left-0 bg-blue-400 text-slate-950 text-[10px] font-bold px-1.5 py-0.5 rounded shadow-sm uppercase">LV ROI</div>
+                      <div className="absolute -top-6 left-0 bg-blue-400 text-slate-950 text-[10px] font-bold px-1.5 py-0.5 rounded shadow-sm uppercase">{rightVentricle ? 'RV ROI' : 'LV ROI'}</div>
                     </div>
                   )}
-                  {!vData[view].roi && !isProcessing && (
+                  {vData[view].laRoi && hasAtrium(view) && (
+                    <div
+                      className="absolute border-2 border-dashed border-fuchsia-400 bg-fuchsia-500/5 pointer-events-none rounded-lg z-20"
+                      style={{
+                        left: `${(vData[view].laRoi!.x / 600) * 100}%`,
+                        top: `${(vData[view].laRoi!.y / 450) * 100}%`,
+                        width: `${(vData[view].laRoi!.w / 600) * 100}%`,
+                        height: `${(vData[view].laRoi!.h / 450) * 100}%`
+                      }}
+                    >
+                      <div className="absolute -top-6 left-0 bg-fuchsia-400 text-slate-950 text-[10px] font-bold px-1.5 py-0.5 rounded shadow-sm uppercase">LA ROI</div>
+                    </div>
+                  )}
+                  {(() => {
+                    const line = calibrationView === view ? calibrationLine : vData[view].calibration;
+                    if (!line) return null;
+                    return (
+                      <svg className="absolute inset-0 w-full h-full pointer-events-none z-20" viewBox="0 0 600 450" preserveAspectRatio="none">
+                        <line x1={line.start.x} y1={line.start.y} x2={line.end.x} y2={line.end.y} stroke="#fbbf24" strokeWidth={2} strokeDasharray={calibrationView === view ? '6 4' : undefined} />
+                        <circle cx={line.start.x} cy={line.start.y} r={3} fill="#fbbf24" />
+                        <circle cx={line.end.x} cy={line.end.y} r={3} fill="#fbbf24" />
+                      </svg>
+                    );
+                  })()}
+                  {calibrationView === view && !isDrawingCalibration && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 bg-slate-900/90 backdrop-blur-md px-3 py-2 rounded-xl border border-amber-500/30 flex items-center gap-2" onMouseDown={(e) => e.stopPropagation()}>
+                      {calibrationLine ? (
+                        <>
+                          <span className="text-[10px] font-bold text-amber-400 uppercase tracking-widest">Length</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={calibrationCm}
+                            onChange={(e) => setCalibrationCm(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') confirmCalibration(view); }}
+                            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-xs text-white tabular-nums"
+                            autoFocus
+                          />
+                          <span className="text-[10px] font-bold text-slate-500">CM</span>
+                          <button onClick={() => confirmCalibration(view)} className="text-[10px] bg-amber-500 hover:bg-amber-400 text-slate-950 px-2 py-0.5 rounded font-bold">SET</button>
+                        </>
+                      ) : (
+                        <span className="text-[10px] font-bold text-amber-400 uppercase tracking-widest flex items-center gap-2">
+                          <Ruler size={12} /> Drag along the depth scale or a known distance
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {!vData[view].roi && !isProcessing && calibrationView !== view && editView !== view && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                       <div className="bg-slate-900/80 backdrop-blur-md px-4 py-2 rounded-xl border border-slate-700 text-[10px] font-bold text-blue-400 uppercase tracking-widest flex items-center gap-2">
                         <ScanLine size={14} /> Drag to define LV Cavity
@@ -366,29 +1075,139 @@ const App: React.FC = () => {
                   )}
                 </div>
               </div>
-              {isProcessing && (
+              {vData[view].status === 'running' && (
                 <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-slate-900 z-30">
-                  <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${vData[view].progress}%` }} />
+                  <div className={`h-full transition-all duration-300 ${isPaused ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${vData[view].progress}%` }} />
+                </div>
+              )}
+              {vData[view].status === 'error' && vData[view].error && (
+                <div className="absolute top-3 left-3 right-3 z-30 bg-red-950/90 border border-red-500/40 text-red-300 text-[10px] font-bold px-3 py-2 rounded-lg flex items-start gap-2">
+                  <Info size={12} className="shrink-0 mt-0.5" />
+                  <span className="flex-1">Analysis failed: {vData[view].error}. Previous results were kept.</span>
+                  <button onClick={() => setVData(prev => ({ ...prev, [view]: { ...prev[view], status: 'idle', error: null } }))} className="text-red-400 hover:text-white"><X size={12} /></button>
                 </div>
               )}
             </>
           )}
         </div>
         
+        {vData[view].isProcessed && vData[view].status !== 'running' && vData[view].history.length > 1 && (
+          <ReviewScrubber
+            frameCount={vData[view].history.length}
+            frame={review[view]?.frame ?? null}
+            time={review[view] ? vData[view].history[review[view]!.frame]?.time ?? null : null}
+            playing={review[view]?.playing ?? false}
+            onFrameChange={(frame) => setReviewFrame(view, frame)}
+            onTogglePlay={() => toggleReviewPlayback(view)}
+            onClose={() => closeReview(view)}
+          />
+        )}
+        {review[view] && analysis && !shortAxis && !rightVentricle && (
+          <div className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-slate-500">
+            <span>Mark valve event</span>
+            {(['mvc', 'avo', 'avc', 'mvo'] as ValveEvent[]).map(event => (
+              <button
+                key={event}
+                onClick={() => markValveEvent(view, event)}
+                className={`px-2 py-0.5 rounded border transition-all ${event in valveOverride ? 'border-violet-500/50 text-violet-300 bg-violet-500/10' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                {event}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-3">
           <div className="bg-slate-900/40 p-4 rounded-xl border border-slate-800/50 flex flex-col justify-between">
-            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">Peak Strain</span>
+            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">{shortAxis ? 'Peak GCS' : rightVentricle ? 'RV 4CH Strain' : 'Peak GLS'}</span>
             <div className="text-2xl font-black tabular-nums text-blue-400 leading-none">
-              {vData[view].history.length > 0 ? vData[view].history[vData[view].history.length-1].strain.toFixed(1) : '0.0'}%
+              {vData[view].gls.toFixed(1)}%
             </div>
+            {vData[view].midwallGls !== null && (
+              <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">Mid-wall {vData[view].midwallGls!.toFixed(1)}%</span>
+            )}
           </div>
-          <div className="bg-slate-900/40 p-4 rounded-xl border border-slate-800/50 flex flex-col justify-between">
-            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">View EF</span>
-            <div className="text-2xl font-black tabular-nums text-emerald-400 leading-none">
-              {vData[view].ef > 0 ? vData[view].ef.toFixed(1) : '--'}%
+          {shortAxis ? (
+            <div className="bg-slate-900/40 p-4 rounded-xl border border-slate-800/50 flex flex-col justify-between">
+              <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">Peak Radial</span>
+              <div className="text-2xl font-black tabular-nums text-emerald-400 leading-none">
+                {vData[view].isProcessed ? peakShortAxis(vData[view]).grs.toFixed(1) : '--'}%
+              </div>
+              {vData[view].isProcessed && (
+                <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">Rotation {peakShortAxis(vData[view]).rotation.toFixed(1)}°</span>
+              )}
             </div>
-          </div>
+          ) : rightVentricle ? (
+            <div className="bg-slate-900/40 p-4 rounded-xl border border-slate-800/50 flex flex-col justify-between">
+              <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">RV Free Wall</span>
+              <div className="text-2xl font-black tabular-nums text-emerald-400 leading-none">
+                {rv ? rv.freeWallStrain.toFixed(1) : '--'}%
+              </div>
+              {rv && (
+                <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mt-1">
+                  FAC {rv.fac !== null ? `${rv.fac.toFixed(1)}%` : '--'} · TAPSE <span className="normal-case">{rv.tapse !== null ? `${rv.tapse.toFixed(1)} ${rv.tapseUnit}` : '--'}</span>
+                </span>
+              )}
+            </div>
+          ) : (
+            <div className="bg-slate-900/40 p-4 rounded-xl border border-slate-800/50 flex flex-col justify-between">
+              <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">View EF</span>
+              <div className="text-2xl font-black tabular-nums text-emerald-400 leading-none">
+                {vData[view].ef > 0 ? vData[view].ef.toFixed(1) : '--'}%
+              </div>
+            </div>
+          )}
         </div>
+
+        {vData[view].isProcessed && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 px-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            <span>ED Area <span className="text-slate-300 tabular-nums normal-case">{formatArea(vData[view].maxArea, vData[view].calibration)}</span></span>
+            <span>ES Area <span className="text-slate-300 tabular-nums normal-case">{formatArea(vData[view].minArea === Infinity ? 0 : vData[view].minArea, vData[view].calibration)}</span></span>
+            <span>Peak Disp. <span className="text-slate-300 tabular-nums normal-case">{formatLength(vData[view].peakDisplacement, vData[view].calibration)}</span></span>
+            <span>Peak Vel. <span className="text-slate-300 tabular-nums normal-case">{formatVelocity(vData[view].peakVelocity, vData[view].calibration)}</span></span>
+            <span>Low-quality pts <span className="text-red-400 tabular-nums">{vData[view].points.filter(p => p.lowQuality).length}/{vData[view].points.length}</span></span>
+            {vData[view].strainRate && (
+              <span className="col-span-2">
+                SRs <span className="text-slate-300 tabular-nums normal-case">{vData[view].strainRate!.srs.toFixed(2)}/s</span>
+                {' · '}SRe <span className="text-slate-300 tabular-nums normal-case">{vData[view].strainRate!.sre !== null ? `${vData[view].strainRate!.sre!.toFixed(2)}/s` : '--'}</span>
+                {' · '}SRa <span className="text-slate-300 tabular-nums normal-case">{vData[view].strainRate!.sra !== null ? `${vData[view].strainRate!.sra!.toFixed(2)}/s` : '--'}</span>
+              </span>
+            )}
+          </div>
+        )}
+
+        {atrialStrain && (
+          <div className="flex items-center gap-4 px-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            <span className="text-fuchsia-400">LA</span>
+            <span>Reservoir <span className="text-slate-300 tabular-nums">{atrialStrain.reservoir.toFixed(1)}%</span></span>
+            <span>Conduit <span className="text-slate-300 tabular-nums">{atrialStrain.conduit.toFixed(1)}%</span></span>
+            <span>Contraction <span className="text-slate-300 tabular-nums">{atrialStrain.contraction !== null ? `${atrialStrain.contraction.toFixed(1)}%` : '--'}</span></span>
+          </div>
+        )}
+
+        {vData[view].quality && (vData[view].quality!.excluded.length > 0 || vData[view].quality!.note) && (
+          <div className="px-3 py-2 rounded-lg bg-amber-500/5 border border-amber-500/20 text-[10px] font-bold text-amber-300 space-y-1">
+            <span className="uppercase tracking-widest text-amber-400">Tracking QC</span>
+            {vData[view].quality!.note && <p>{vData[view].quality!.note}</p>}
+            {vData[view].quality!.excluded.map(seg => (
+              <p key={seg}>
+                GLS excludes {AHA_SEGMENT_NAMES[seg]}: <span className="text-amber-200/80 font-medium">{vData[view].quality!.segments[seg].reasons.join('; ')}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {vData[view].beats.length > 0 && (
+          <div className="px-2 space-y-1">
+            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Per-beat ({vData[view].beats.length} detected, values averaged)</span>
+            {vData[view].beats.map((beat, i) => (
+              <div key={i} className="flex items-center justify-between text-[10px] font-bold text-slate-400 tabular-nums bg-slate-900/40 rounded-lg px-2 py-1 border border-slate-800/50">
+                <span className="text-slate-500">#{i + 1} · ED {beat.edTime.toFixed(2)}s · ES {beat.esTime.toFixed(2)}s</span>
+                <span>GLS <span className="text-blue-400">{beat.gls.toFixed(1)}%</span> · EF <span className="text-emerald-400">{beat.ef !== null ? beat.ef.toFixed(1) : '--'}%</span></span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   };
@@ -411,27 +1230,144 @@ const App: React.FC = () => {
               <span className="text-[10px] font-black uppercase tracking-widest">REC: {recordingTarget?.toUpperCase()}</span>
             </div>
           )}
+          <div className="flex items-center p-0.5 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest">
+            {([['apical', 'Apical'], ['short-axis', 'Short Axis'], ['right-ventricle', 'RV']] as [ViewKind, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-3 py-1 rounded-lg transition-all ${viewMode === mode ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="relative">
+            <button
+              onClick={toggleStudies}
+              disabled={isProcessing || isRecording}
+              className={`flex items-center gap-2 px-3 py-1.5 border rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all ${showStudies ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              <FolderOpen size={14} /> {currentStudy ? currentStudy.name : 'Studies'}
+            </button>
+            {showStudies && (
+              <div className="absolute right-0 top-full mt-2 z-50">
+                <StudyPanel
+                  studies={studies}
+                  currentId={currentStudy?.id ?? null}
+                  currentName={currentStudy?.name ?? ''}
+                  busy={studyBusy}
+                  error={studyError}
+                  onSave={saveCurrentStudy}
+                  onOpen={openStudy}
+                  onExport={exportStudy}
+                  onDelete={removeStudy}
+                  onImport={importStudy}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-900 border border-slate-800 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            <span>Tracker</span>
+            <select
+              value={trackingSettings.algorithm}
+              disabled={isProcessing}
+              onChange={(e) => setTrackingSettings(prev => ({ ...prev, algorithm: e.target.value as TrackingAlgorithm }))}
+              className="bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 font-bold"
+            >
+              <option value="sad">SAD (stride 2)</option>
+              <option value="ncc">NCC sub-pixel</option>
+            </select>
+            <label className={`flex items-center gap-1 ${trackingSettings.algorithm !== 'ncc' ? 'opacity-40' : ''}`}>
+              <input
+                type="checkbox"
+                checked={trackingSettings.pyramid}
+                disabled={isProcessing || trackingSettings.algorithm !== 'ncc'}
+                onChange={(e) => setTrackingSettings(prev => ({ ...prev, pyramid: e.target.checked }))}
+              /> Pyramid
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={trackingSettings.excludeLowQuality}
+                disabled={isProcessing}
+                onChange={(e) => setTrackingSettings(prev => ({ ...prev, excludeLowQuality: e.target.checked }))}
+              /> Drop low-quality
+            </label>
+            <label className="flex items-center gap-1" title="Track every match back to the previous frame and lower its quality by the round-trip error">
+              <input
+                type="checkbox"
+                checked={trackingSettings.forwardBackward}
+                disabled={isProcessing}
+                onChange={(e) => setTrackingSettings(prev => ({ ...prev, forwardBackward: e.target.checked }))}
+              /> Fwd-bwd
+            </label>
+            <label className="flex items-center gap-1" title="Remove the linear return-to-origin drift across each detected cycle">
+              <input
+                type="checkbox"
+                checked={trackingSettings.driftCorrection}
+                disabled={isProcessing}
+                onChange={(e) => setTrackingSettings(prev => ({ ...prev, driftCorrection: e.target.checked }))}
+              /> Drift
+            </label>
+            <span title="Passes of spatial smoothing along the wall">Spatial</span>
+            <select
+              value={trackingSettings.spatialSmoothing}
+              disabled={isProcessing}
+              onChange={(e) => setTrackingSettings(prev => ({ ...prev, spatialSmoothing: Number(e.target.value) }))}
+              className="bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 font-bold"
+            >
+              {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n === 0 ? 'Off' : `${n}×`}</option>)}
+            </select>
+            <span title="Savitzky–Golay window over each point trajectory">Temporal</span>
+            <select
+              value={trackingSettings.temporalWindow}
+              disabled={isProcessing}
+              onChange={(e) => setTrackingSettings(prev => ({ ...prev, temporalWindow: Number(e.target.value) }))}
+              className="bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 font-bold"
+            >
+              {[0, 5, 7, 9, 11].map(n => <option key={n} value={n}>{n === 0 ? 'Off' : `SG ${n}`}</option>)}
+            </select>
+          </div>
           <button 
-            onClick={runBiplaneAnalysis} 
-            disabled={isProcessing || isRecording || !vData.a4c.roi || !vData.a2c.roi}
+            onClick={runFullAnalysis} 
+            disabled={isProcessing || isRecording || editView !== null || VIEW_IDS.every(v => !vData[v].roi)}
             className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white px-6 py-2.5 rounded-xl text-sm font-bold transition-all shadow-lg shadow-blue-500/20 active:scale-95"
           >
-            {isProcessing ? <Loader2 size={18} className="animate-spin" /> : <Activity size={18} />}
-            {isProcessing ? 'Analyzing Frames...' : 'Run Biplane Analysis'}
+            {isProcessing ? <Loader2 size={18} className={isPaused ? '' : 'animate-spin'} /> : <Activity size={18} />}
+            {isProcessing ? (isPaused ? 'Paused' : 'Analyzing Frames...') : 'Run Analysis'}
           </button>
+          {isProcessing && (
+            <>
+              <button
+                onClick={togglePause}
+                className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2.5 rounded-xl text-sm font-bold transition-all"
+              >
+                {isPaused ? <Play size={16} /> : <Pause size={16} />}
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={cancelAnalysis}
+                className="flex items-center gap-2 bg-red-600/10 hover:bg-red-600 text-red-400 hover:text-white border border-red-500/20 px-4 py-2.5 rounded-xl text-sm font-bold transition-all"
+              >
+                <X size={16} /> Cancel
+              </button>
+            </>
+          )}
         </div>
       </nav>
 
       <main className="flex-1 p-6 grid grid-cols-1 lg:grid-cols-12 gap-8 max-w-[1900px] mx-auto w-full">
         <div className="lg:col-span-9 flex flex-col gap-8">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            {renderViewport('a4c', 'Apical 4-Chamber (A4C)')}
-            {renderViewport('a2c', 'Apical 2-Chamber (A2C)')}
+          <div className="grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-3 gap-8">
+            {VIEWS.filter(v => v.kind === viewMode).map(v => <React.Fragment key={v.id}>{renderViewport(v.id, `${v.label} (${v.short})`)}</React.Fragment>)}
           </div>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-             <StrainChart data={vData.a4c.history} />
-             <StrainChart data={vData.a2c.history} />
+          <div className="grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-3 gap-8">
+            {VIEWS.filter(v => v.kind === viewMode).map(({ id: v }) => (
+              <div key={v} ref={chartRefs.strain[v]}>
+                <StrainChart view={vData[v]} axis={!isShortAxis(v) && vData[v].roi ? getLongAxis(vData[v].roi!) : null} beats={vData[v].beats} cursorTime={review[v] ? vData[v].history[review[v]!.frame]?.time ?? null : null} valves={getViewDefinition(v).kind === 'apical' ? analysis?.work?.valves ?? null : null} />
+              </div>
+            ))}
           </div>
         </div>
 
@@ -442,21 +1378,213 @@ const App: React.FC = () => {
                  <ClipboardList className="text-blue-400" size={20} />
                  <h2 className="font-bold uppercase tracking-tight text-xs">Diagnostic Biplane Report</h2>
                </div>
+               {analysis && (
+                 <div className="flex items-center gap-1">
+                   <button onClick={() => exportJson(analysis)} title="Export JSON" className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"><FileJson size={14} /></button>
+                   <button onClick={() => exportDicomSr(analysis)} disabled={srProblem !== null} title={srProblem ? `DICOM SR unavailable: ${srProblem}` : 'Export DICOM SR (JSON model)'} className="text-[9px] font-bold px-1.5 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40">SR</button>
+                   <button onClick={() => exportHtml(analysis, collectReportCharts())} title="Export HTML report" className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"><FileText size={14} /></button>
+                   <button onClick={() => printReport(analysis, collectReportCharts())} title="Print / save as PDF" className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300"><Printer size={14} /></button>
+                 </div>
+               )}
             </div>
             <div className="flex-1 overflow-y-auto p-6 space-y-6">
               {analysis ? (
                 <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+                  {srProblem && (
+                    <div className="text-[10px] text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2">
+                      DICOM SR export is off: {srProblem}. The SR is filed into the patient's echo study, which only DICOM clips identify.
+                    </div>
+                  )}
                   <div className="p-6 rounded-2xl bg-blue-600 shadow-xl shadow-blue-900/20 text-white relative overflow-hidden">
                     <div className="relative z-10">
-                      <span className="text-[10px] font-bold uppercase tracking-widest opacity-80">Biplane LVEF (Simpson's)</span>
+                      <span className="text-[10px] font-bold uppercase tracking-widest opacity-80">
+                        {analysis.volumes?.method === 'single-plane' ? 'Single-Plane LVEF (Area-Length)' : "Biplane LVEF (Simpson's)"}
+                      </span>
                       <div className="text-5xl font-black tabular-nums my-1">{analysis.biplaneEf.toFixed(1)}%</div>
                       <div className="text-[10px] font-bold bg-white/10 w-fit px-2 py-1 rounded-lg mt-2 flex items-center gap-1">
-                        <CheckCircle2 size={12} /> SYNCED INTEGRATION
+                        <CheckCircle2 size={12} /> {analysis.volumes?.method === 'single-plane' ? 'SINGLE VIEW FALLBACK' : 'SYNCED INTEGRATION'}
                       </div>
                     </div>
                     <Droplets className="absolute -right-4 -bottom-4 text-white/10" size={100} />
                   </div>
 
+                  {analysis.gls !== null && (
+                    <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Global Longitudinal Strain</span>
+                        <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-blue-500/10 text-blue-400">
+                          {VIEWS.filter(v => v.kind === 'apical' && analysis.views[v.id].history.length > 0).length === 3 ? 'Triplane' : 'Average'}
+                        </span>
+                      </div>
+                      <div className="text-2xl font-black tabular-nums text-slate-200 leading-none">{analysis.gls.toFixed(1)}%</div>
+                      {analysis.strainRate && (
+                        <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                          <span>SRs <span className="text-slate-200 tabular-nums normal-case">{analysis.strainRate.srs.toFixed(2)}/s</span></span>
+                          <span>SRe <span className="text-slate-200 tabular-nums normal-case">{analysis.strainRate.sre !== null ? `${analysis.strainRate.sre.toFixed(2)}/s` : '--'}</span></span>
+                          <span>SRa <span className="text-slate-200 tabular-nums normal-case">{analysis.strainRate.sra !== null ? `${analysis.strainRate.sra.toFixed(2)}/s` : '--'}</span></span>
+                        </div>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {VIEWS.filter(v => v.kind === 'apical' && analysis.views[v.id].history.length > 0).map(v => (
+                          <span key={v.id} className="text-[10px] font-bold tabular-nums text-slate-300 bg-slate-900 border border-slate-800 rounded px-2 py-0.5">{v.short} {analysis.views[v.id].gls.toFixed(1)}%</span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {analysis.shortAxis && (
+                    <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Short Axis</span>
+                      <div className="grid grid-cols-4 gap-x-2 gap-y-1 text-[10px] font-bold tabular-nums">
+                        <span className="text-slate-600">Level</span>
+                        <span className="text-slate-600 text-right">GCS</span>
+                        <span className="text-slate-600 text-right">GRS</span>
+                        <span className="text-slate-600 text-right">Rot.</span>
+                        {analysis.shortAxis.levels.map(l => (
+                          <React.Fragment key={l.view}>
+                            <span className="text-slate-400 uppercase">{l.level}</span>
+                            <span className="text-blue-400 text-right">{l.gcs.toFixed(1)}%</span>
+                            <span className="text-emerald-400 text-right">{l.grs.toFixed(1)}%</span>
+                            <span className="text-slate-300 text-right">{l.rotation.toFixed(1)}°</span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        <span>Twist <span className="text-slate-200 tabular-nums">{analysis.shortAxis.twist !== null ? `${analysis.shortAxis.twist.toFixed(1)}°` : '--'}</span></span>
+                        <span>Torsion <span className="text-slate-200 tabular-nums normal-case">{analysis.shortAxis.torsion !== null ? `${analysis.shortAxis.torsion.toFixed(2)}°/cm` : '--'}</span></span>
+                      </div>
+                    </div>
+                  )}
+
+                  {analysis.rightVentricle && (
+                    <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Right Ventricle</span>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        <span>Free wall <span className="text-emerald-400 tabular-nums">{analysis.rightVentricle.freeWallStrain.toFixed(1)}%</span></span>
+                        <span>4-Chamber <span className="text-blue-400 tabular-nums">{analysis.rightVentricle.fourChamberStrain.toFixed(1)}%</span></span>
+                        <span>Septum <span className="text-slate-200 tabular-nums">{analysis.rightVentricle.septalStrain.toFixed(1)}%</span></span>
+                        <span>FAC <span className="text-slate-200 tabular-nums">{analysis.rightVentricle.fac !== null ? `${analysis.rightVentricle.fac.toFixed(1)}%` : '--'}</span></span>
+                        <span>TAPSE <span className="text-slate-200 tabular-nums normal-case">{analysis.rightVentricle.tapse !== null ? `${analysis.rightVentricle.tapse.toFixed(1)} ${analysis.rightVentricle.tapseUnit}` : '--'}</span></span>
+                        <span>EDA <span className="text-slate-200 tabular-nums normal-case">{analysis.rightVentricle.eda.toFixed(1)} {analysis.rightVentricle.areaUnit}</span></span>
+                      </div>
+                    </div>
+                  )}
+
+                  {analysis.leftAtrium && (
+                    <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Left Atrium</span>
+                        <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-fuchsia-500/10 text-fuchsia-400">
+                          {analysis.leftAtrium.views.map(v => v.view.toUpperCase()).join(' + ')}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                        <span>Reservoir <span className="block text-lg font-black text-fuchsia-400 tabular-nums">{analysis.leftAtrium.reservoir.toFixed(1)}%</span></span>
+                        <span>Conduit <span className="block text-lg font-black text-slate-200 tabular-nums">{analysis.leftAtrium.conduit.toFixed(1)}%</span></span>
+                        <span>Contraction <span className="block text-lg font-black text-slate-200 tabular-nums">{analysis.leftAtrium.contraction !== null ? `${analysis.leftAtrium.contraction.toFixed(1)}%` : '--'}</span></span>
+                      </div>
+                      {analysis.leftAtrium.volumes && (
+                        <div className="flex items-center gap-4 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                          <span>Max <span className="text-slate-200 tabular-nums normal-case">{analysis.leftAtrium.volumes.max.toFixed(1)} {analysis.leftAtrium.volumes.unit}</span></span>
+                          <span>Min <span className="text-slate-200 tabular-nums normal-case">{analysis.leftAtrium.volumes.min.toFixed(1)} {analysis.leftAtrium.volumes.unit}</span></span>
+                          <span>LAEF <span className="text-slate-200 tabular-nums">{analysis.leftAtrium.volumes.emptyingFraction.toFixed(1)}%</span></span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Myocardial Work</span>
+                      <input
+                        type="text"
+                        placeholder="Cuff BP 120/80"
+                        value={bpText}
+                        onChange={(e) => applyBloodPressure(e.target.value)}
+                        className="w-28 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-white tabular-nums"
+                      />
+                    </div>
+                    {analysis.work ? (
+                      <>
+                        <div className="grid grid-cols-4 gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                          <span>GWI <span className="block text-lg font-black text-pink-400 tabular-nums">{analysis.work.gwi.toFixed(0)}</span></span>
+                          <span>GCW <span className="block text-lg font-black text-slate-200 tabular-nums">{analysis.work.gcw.toFixed(0)}</span></span>
+                          <span>GWW <span className="block text-lg font-black text-slate-200 tabular-nums">{analysis.work.gww.toFixed(0)}</span></span>
+                          <span>GWE <span className="block text-lg font-black text-slate-200 tabular-nums">{analysis.work.gwe.toFixed(0)}%</span></span>
+                        </div>
+                        <div className="flex items-center gap-3 text-[10px] font-bold text-slate-500 tabular-nums">
+                          <span>mmHg% · valves (ms from ED) AVO {analysis.work.valves.avo.toFixed(0)} · AVC {analysis.work.valves.avc.toFixed(0)} · MVO {analysis.work.valves.mvo.toFixed(0)}</span>
+                          {analysis.work.valvesManual && (
+                            <button onClick={resetValveEvents} className="text-violet-400 hover:text-white" title="Back to valve timings estimated from the beats"><RotateCcw size={10} /></button>
+                          )}
+                        </div>
+                        <PressureStrainLoop work={analysis.work} />
+                      </>
+                    ) : (
+                      <p className="text-[10px] text-slate-500">Enter a cuff blood pressure to estimate LV pressure and myocardial work. Valve events can be marked on a reviewed apical clip.</p>
+                    )}
+                  </div>
+
+                  <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Heart Rate</span>
+                      <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${analysis.hrManual ? 'bg-amber-500/10 text-amber-400' : 'bg-blue-500/10 text-blue-400'}`}>
+                        {analysis.hrManual ? 'Manual' : analysis.hrEstimate ? analysis.hrEstimate.method : 'Unavailable'}
+                      </span>
+                    </div>
+                    <div className="flex items-end justify-between">
+                      <div className="text-2xl font-black tabular-nums text-slate-200 leading-none">
+                        {analysis.hr > 0 ? analysis.hr.toFixed(0) : '--'} <span className="text-[10px] text-slate-500">BPM</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min="0"
+                          placeholder="Override"
+                          value={hrOverride ?? ''}
+                          onChange={(e) => applyHrOverride(e.target.value === '' ? null : parseFloat(e.target.value))}
+                          className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-xs text-white tabular-nums"
+                        />
+                        {hrOverride !== null && (
+                          <button onClick={() => applyHrOverride(null)} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+                        )}
+                      </div>
+                    </div>
+                    {analysis.hrEstimate && (
+                      <div className="flex items-center gap-3 text-[10px] font-bold text-slate-500 tabular-nums">
+                        <span>Confidence {(analysis.hrEstimate.confidence * 100).toFixed(0)}%</span>
+                        {analysis.hrEstimate.rrVariability !== null && (
+                          <span>R-R SD {analysis.hrEstimate.rrVariability.toFixed(0)} ms ({analysis.hrEstimate.rrIntervals.length} beats)</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {analysis.beatVolumes.length > 1 && (
+                    <div className="space-y-1">
+                      <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">EF per beat ({analysis.beatVolumes.length} averaged)</span>
+                      <div className="flex flex-wrap gap-1">
+                        {analysis.beatVolumes.map((v, i) => (
+                          <span key={i} className="text-[10px] font-bold tabular-nums text-slate-300 bg-slate-950 border border-slate-800 rounded px-2 py-0.5">#{i + 1} {v.ef.toFixed(1)}%</span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {analysis.volumes && (
+                    <div className="grid grid-cols-3 gap-3">
+                      {([['EDV', analysis.volumes.edv], ['ESV', analysis.volumes.esv], ['SV', analysis.volumes.sv]] as [string, number][]).map(([label, value]) => (
+                        <div key={label} className="p-3 rounded-xl bg-slate-950 border border-slate-800">
+                          <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">{label}</span>
+                          <div className="text-lg font-black tabular-nums text-slate-200 leading-tight">
+                            {analysis.volumes!.unit === 'mL' ? value.toFixed(1) : (value / 1000).toFixed(1)}
+                          </div>
+                          <span className="text-[8px] text-slate-600 font-bold">{analysis.volumes!.unit === 'mL' ? 'mL' : '×10³ px³'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="p-4 rounded-xl bg-slate-950 border border-slate-800 space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Functional State</span>
@@ -470,8 +1598,49 @@ const App: React.FC = () => {
                   </div>
 
                   <div className="pt-4 border-t border-slate-800">
-                    <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-6 text-center tracking-widest">Global Segmental Map</h4>
-                    <div className="flex justify-center"><BullsEyeChart segmentData={analysis.segments.detailed} /></div>
+                    <div className="flex items-center justify-between mb-6">
+                      <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Global Segmental Map</h4>
+                      <div className="flex items-center p-0.5 bg-slate-900 border border-slate-800 rounded-lg text-[9px] font-bold uppercase tracking-widest">
+                        {([['strain', 'Strain'], ['timeToPeak', 'Time to Peak'], ['workEfficiency', 'Work']] as [BullsEyeMode, string][]).map(([mode, label]) => (
+                          <button
+                            key={mode}
+                            onClick={() => setBullsEyeMode(mode)}
+                            disabled={(mode === 'timeToPeak' && !analysis.timing) || (mode === 'workEfficiency' && !analysis.work)}
+                            className={`px-2 py-0.5 rounded-md transition-all disabled:opacity-40 ${bullsEyeMode === mode ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div ref={chartRefs.bullsEye} className="flex justify-center">
+                      {bullsEyeMode === 'timeToPeak' && analysis.timing
+                        ? <BullsEyeChart segmentData={analysis.timing.timeToPeak} quality={analysis.segments.quality} mode="timeToPeak" endSystole={analysis.timing.endSystole} />
+                        : bullsEyeMode === 'workEfficiency' && analysis.work
+                          ? <BullsEyeChart segmentData={analysis.work.segments.efficiency} quality={analysis.segments.quality} mode="workEfficiency" />
+                          : <BullsEyeChart segmentData={analysis.segments.detailed} quality={analysis.segments.quality} />}
+                    </div>
+                    {analysis.timing && (
+                      <div className="mt-4 space-y-1 text-[10px]">
+                        <div className="flex items-center justify-between">
+                          <span className="font-bold text-slate-500 uppercase tracking-widest">Mechanical dispersion</span>
+                          <span className="font-black tabular-nums text-slate-200">{analysis.timing.dispersion !== null ? `${analysis.timing.dispersion.toFixed(0)} ms` : '--'}</span>
+                        </div>
+                        {analysis.timing.postSystolicIndex.map((psi, i) => psi !== null && psi >= POST_SYSTOLIC_INDEX_LIMIT && (
+                          <p key={i} className="text-slate-400">
+                            <b className="text-slate-300">{i + 1}. {AHA_SEGMENT_NAMES[i]}</b> — post-systolic shortening, PSI {psi.toFixed(0)}%
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {analysis.segments.quality.some(q => q && !q.reliable) && (
+                      <div className="mt-4 space-y-1 text-[10px]">
+                        <span className="font-bold text-amber-400 uppercase tracking-widest">Unreliable segments</span>
+                        {analysis.segments.quality.map((q, i) => q && !q.reliable && (
+                          <p key={i} className="text-slate-400"><b className="text-slate-300">{i + 1}. {AHA_SEGMENT_NAMES[i]}</b> — {q.reasons.join('; ')}</p>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -481,19 +1650,19 @@ const App: React.FC = () => {
                    <div className="text-[11px] text-slate-500 mt-4 space-y-4 px-4 text-left border-l-2 border-slate-800">
                       <p className="flex items-start gap-2">
                         <span className="text-blue-500 font-bold shrink-0">1.</span>
-                        <span>Record or upload <b>A4C</b> and <b>A2C</b> clips.</span>
+                        <span>Record or upload <b>A4C</b>, <b>A2C</b> and <b>A3C</b> clips (video or DICOM cine).</span>
                       </p>
                       <p className="flex items-start gap-2">
                         <span className="text-blue-500 font-bold shrink-0">2.</span>
-                        <span>Drag ROIs on both captured videos.</span>
+                        <span>Drag ROIs on the captured videos.</span>
                       </p>
                       <p className="flex items-start gap-2">
                         <span className="text-blue-500 font-bold shrink-0">3.</span>
-                        <span>Press <b>Run Biplane Analysis</b>.</span>
+                        <span>Press <b>Run Analysis</b>.</span>
                       </p>
                    </div>
                    
-                   {!vData.a4c.videoUrl && !vData.a2c.videoUrl && (
+                   {VIEW_IDS.every(v => !vData[v].videoUrl && !vData[v].dicom) && (
                     <div className="mt-12 p-4 rounded-xl bg-blue-500/5 border border-blue-500/10 text-left">
                        <p className="text-[10px] text-blue-400 font-bold uppercase mb-2">Live Alignment Mode</p>
                        <p className="text-[11px] text-slate-600 italic leading-relaxed">
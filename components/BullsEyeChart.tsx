@@ -1,11 +1,16 @@
 
 import React from 'react';
+import { AHA_SEGMENT_NAMES } from '../utils/segments';
+import { BullsEyeMode, SegmentStatus } from '../types';
 
 interface BullsEyeChartProps {
-  segmentData: number[]; // 17 segments
+  segmentData: (number | null)[]; // 17 segments, null = not assessed; % strain, ms time-to-peak or % work efficiency
+  quality?: (SegmentStatus | null)[]; // tracking QC; unreliable segments are hatched
+  mode?: BullsEyeMode;
+  endSystole?: number | null; // ms; time-to-peak is coloured against it
 }
 
-const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
+const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData, quality = [], mode = 'strain', endSystole = null }) => {
   const size = 200;
   const center = size / 2;
   const rings = [size * 0.45, size * 0.32, size * 0.18]; // Radii for Basal, Mid, Apical
@@ -16,8 +21,29 @@ const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
   // Mid: 6-11 (6 segments)
   // Apical: 12-15 (4 segments)
   // Apex: 16 (1 segment)
-
-  const getColor = (val: number) => {
+  // Segments run counter-clockwise from anterior (top), so septal walls sit on the left.
+
+  // Without an end-systole the latest segment sets the time-to-peak scale
+  const timeScale = endSystole ?? Math.max(1, ...segmentData.filter((v): v is number => v !== null && v !== undefined));
+
+  const getColor = (val: number | null) => {
+    if (val === null || val === undefined) return '#334155'; // Slate 700 - not assessed
+    if (mode === 'timeToPeak') {
+      // Peaks around end-systole are synchronous (green), late peaks post-systolic (red)
+      const ratio = val / timeScale;
+      if (ratio <= 1.0) return '#22c55e';
+      if (ratio <= 1.1) return '#84cc16';
+      if (ratio <= 1.2) return '#eab308';
+      if (ratio <= 1.35) return '#f97316';
+      return '#ef4444';
+    }
+    if (mode === 'workEfficiency') {
+      if (val >= 95) return '#22c55e';
+      if (val >= 90) return '#84cc16';
+      if (val >= 85) return '#eab308';
+      if (val >= 75) return '#f97316';
+      return '#ef4444';
+    }
     // Standard color mapping for health:
     // Strain around -20 is healthy (Green)
     // Strain around 0 is unhealthy (Red)
@@ -53,23 +79,36 @@ const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
     };
   };
 
+  const formatValue = (val: number | null) => val === null ? 'Not assessed' : mode === 'timeToPeak' ? `${Math.round(val)} ms` : mode === 'workEfficiency' ? `${val.toFixed(0)}% efficiency` : `${val.toFixed(1)}%`;
+
+  const formatQuality = (index: number) => {
+    const status = quality[index];
+    if (!status) return '';
+    return status.reliable ? ' · QC acceptable' : ` · QC unreliable (${status.reasons.join('; ')})`;
+  };
+
+  const isUnreliable = (index: number) => quality[index]?.reliable === false;
+
   const renderRing = (count: number, outerR: number, innerR: number, startIndex: number) => {
     const step = 360 / count;
     return Array.from({ length: count }).map((_, i) => {
-      const startAngle = i * step;
-      const endAngle = (i + 1) * step;
-      const value = segmentData[startIndex + i] || 0;
+      const startAngle = -i * step - step / 2;
+      const endAngle = -i * step + step / 2;
+      const value = segmentData[startIndex + i] ?? null;
+      const d = describeArc(center, center, outerR, innerR, startAngle, endAngle);
       return (
-        <path
-          key={`seg-${startIndex + i}`}
-          d={describeArc(center, center, outerR, innerR, startAngle, endAngle)}
-          fill={getColor(value)}
-          stroke="#0f172a"
-          strokeWidth="1.5"
-          className="transition-colors duration-500 hover:brightness-110"
-        >
-          <title>Segment {startIndex + i + 1}: {value.toFixed(1)}%</title>
-        </path>
+        <g key={`seg-${startIndex + i}`}>
+          <path
+            d={d}
+            fill={getColor(value)}
+            stroke="#0f172a"
+            strokeWidth="1.5"
+            className="transition-colors duration-500 hover:brightness-110"
+          >
+            <title>{startIndex + i + 1}. {AHA_SEGMENT_NAMES[startIndex + i]}: {formatValue(value)}{formatQuality(startIndex + i)}</title>
+          </path>
+          {isUnreliable(startIndex + i) && <path d={d} fill="url(#qc-hatch)" stroke="none" pointerEvents="none" />}
+        </g>
       );
     });
   };
@@ -78,6 +117,11 @@ const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
     <div className="flex flex-col items-center gap-4">
       <div className="relative">
         <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+          <defs>
+            <pattern id="qc-hatch" width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <line x1="0" y1="0" x2="0" y2="6" stroke="#0f172a" strokeWidth="2.5" />
+            </pattern>
+          </defs>
           {/* Outer Ring - Basal (6 segments) */}
           {renderRing(6, rings[0], rings[1], 0)}
           
@@ -92,12 +136,13 @@ const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
             cx={center} 
             cy={center} 
             r={apexRadius} 
-            fill={getColor(segmentData[16] || 0)} 
+            fill={getColor(segmentData[16] ?? null)} 
             stroke="#0f172a" 
             strokeWidth="1.5"
           >
-             <title>Apex: {(segmentData[16] || 0).toFixed(1)}%</title>
+             <title>17. Apex: {formatValue(segmentData[16] ?? null)}{formatQuality(16)}</title>
           </circle>
+          {isUnreliable(16) && <circle cx={center} cy={center} r={apexRadius} fill="url(#qc-hatch)" pointerEvents="none" />}
 
           {/* Legend Lines */}
           <g opacity="0.3" stroke="#fff" strokeWidth="0.5" pointerEvents="none">
@@ -117,13 +162,23 @@ const BullsEyeChart: React.FC<BullsEyeChartProps> = ({ segmentData }) => {
       <div className="flex items-center gap-4 mt-2">
         <div className="flex flex-col items-center gap-1">
           <div className="w-3 h-3 rounded-full bg-[#ef4444]" />
-          <span className="text-[8px] text-slate-500">0%</span>
+          <span className="text-[8px] text-slate-500">{mode === 'timeToPeak' ? 'Late' : mode === 'workEfficiency' ? '<75%' : '0%'}</span>
         </div>
         <div className="w-16 h-1 bg-gradient-to-r from-[#ef4444] via-[#eab308] to-[#22c55e] rounded-full" />
         <div className="flex flex-col items-center gap-1">
           <div className="w-3 h-3 rounded-full bg-[#22c55e]" />
-          <span className="text-[8px] text-slate-500">-20%</span>
+          <span className="text-[8px] text-slate-500">{mode === 'timeToPeak' ? (endSystole !== null ? `≤ES ${Math.round(endSystole)} ms` : 'Early') : mode === 'workEfficiency' ? '≥95%' : '-20%'}</span>
+        </div>
+        <div className="flex flex-col items-center gap-1">
+          <div className="w-3 h-3 rounded-full bg-[#334155]" />
+          <span className="text-[8px] text-slate-500">N/A</span>
         </div>
+        {quality.some(q => q && !q.reliable) && (
+          <div className="flex flex-col items-center gap-1">
+            <svg width="12" height="12"><rect width="12" height="12" rx="6" fill="#64748b" /><rect width="12" height="12" rx="6" fill="url(#qc-hatch)" /></svg>
+            <span className="text-[8px] text-slate-500">QC fail</span>
+          </div>
+        )}
       </div>
     </div>
   );
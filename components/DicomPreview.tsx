@@ -0,0 +1,32 @@
+import React, { useRef, useEffect } from 'react';
+import { DicomCine, drawDicomFrame } from '../services/dicom';
+
+interface DicomPreviewProps {
+  cine: DicomCine;
+  frameIndex?: number;
+  width: number; // Logical width (e.g. 600)
+  height: number; // Logical height (e.g. 450)
+}
+
+// Shows one frame of a DICOM cine loop (the first by default) where a <video> would otherwise sit
+const DicomPreview: React.FC<DicomPreviewProps> = ({ cine, frameIndex = 0, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const index = Math.max(0, Math.min(cine.numberOfFrames - 1, frameIndex));
+    drawDicomFrame(cine, index, ctx, width, height).catch(err => console.error('DICOM preview failed:', err));
+  }, [cine, frameIndex, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="w-full h-full object-contain pointer-events-none opacity-50"
+    />
+  );
+};
+
+export default DicomPreview;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { MyocardialWork } from '../types';
+import { AHA_SEGMENT_NAMES } from '../utils/segments';
+
+interface PressureStrainLoopProps {
+  work: MyocardialWork;
+}
+
+// Estimated LV pressure against strain over one cycle; the enclosed area is the work index
+const PressureStrainLoop: React.FC<PressureStrainLoopProps> = ({ work }) => {
+  const [segment, setSegment] = useState<number | null>(null);
+  const segments = Object.keys(work.loops.segments).map(Number);
+  const loop = segment !== null ? work.loops.segments[segment] ?? [] : work.loops.global;
+  // Close the loop back to end-diastole
+  const data = loop.length > 0 ? [...loop, loop[0]] : [];
+
+  return (
+    <div className="w-full h-56 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Pressure-Strain Loop</span>
+        <select
+          value={segment ?? ''}
+          onChange={(e) => setSegment(e.target.value === '' ? null : Number(e.target.value))}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200"
+        >
+          <option value="">Global</option>
+          {segments.map(seg => <option key={seg} value={seg}>{seg + 1}. {AHA_SEGMENT_NAMES[seg]}</option>)}
+        </select>
+      </div>
+      <ResponsiveContainer width="100%" height="85%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="strain" type="number" domain={['auto', 'auto']} stroke="#94a3b8" fontSize={10} tickFormatter={(val) => `${Number(val).toFixed(0)}%`} />
+          <YAxis dataKey="pressure" type="number" domain={[0, 'auto']} stroke="#94a3b8" fontSize={10} width={32} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+            itemStyle={{ color: '#f472b6' }}
+            labelFormatter={(val) => `Strain ${Number(val).toFixed(1)}%`}
+            formatter={(value: number) => [`${Number(value).toFixed(0)} mmHg`, 'Pressure']}
+          />
+          <Line type="linear" dataKey="pressure" stroke="#f472b6" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default PressureStrainLoop;
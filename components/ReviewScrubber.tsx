@@ -0,0 +1,38 @@
+import React from 'react';
+import { Play, Pause, X } from 'lucide-react';
+
+interface ReviewScrubberProps {
+  frameCount: number;
+  frame: number | null; // null while not reviewing
+  time: number | null; // s
+  playing: boolean;
+  onFrameChange: (frame: number) => void;
+  onTogglePlay: () => void;
+  onClose: () => void;
+}
+
+const ReviewScrubber: React.FC<ReviewScrubberProps> = ({ frameCount, frame, time, playing, onFrameChange, onTogglePlay, onClose }) => {
+  return (
+    <div className="flex items-center gap-3 bg-slate-900/40 px-3 py-2 rounded-xl border border-slate-800/50">
+      <button onClick={onTogglePlay} className="text-slate-300 hover:text-white" title={playing ? 'Pause review' : 'Play review'}>
+        {playing ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, frameCount - 1)}
+        value={frame ?? 0}
+        onChange={(e) => onFrameChange(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+      />
+      <span className="text-[10px] font-bold text-slate-500 tabular-nums w-28 text-right">
+        {frame !== null ? `${frame + 1}/${frameCount} · ${(time ?? 0).toFixed(2)}s` : `${frameCount} frames`}
+      </span>
+      {frame !== null && (
+        <button onClick={onClose} className="text-slate-500 hover:text-red-400" title="Leave review"><X size={12} /></button>
+      )}
+    </div>
+  );
+};
+
+export default ReviewScrubber;
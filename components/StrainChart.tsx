@@ -1,38 +1,104 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CardiacBeat, CurveType, LongAxis, ValveEvent, ValveTimings, ViewAnalysis } from '../types';
+import { buildCurves, CURVE_LABELS } from '../utils/kinematics';
+import { AHA_SEGMENT_NAMES } from '../utils/segments';
 
 interface StrainChartProps {
-  data: { time: number; strain: number }[];
+  view: ViewAnalysis;
+  axis: LongAxis | null; // direction of velocity / displacement, magnitude without one
+  beats?: CardiacBeat[];
+  cursorTime?: number | null; // frame being reviewed
+  valves?: ValveTimings | null; // drawn in every beat, from its end-diastole
 }
 
-const StrainChart: React.FC<StrainChartProps> = ({ data }) => {
+const SEGMENT_COLORS = ['#f472b6', '#a78bfa', '#34d399', '#fbbf24', '#fb7185', '#60a5fa'];
+
+const VALVE_EVENTS: ValveEvent[] = ['mvc', 'avo', 'avc', 'mvo'];
+
+const StrainChart: React.FC<StrainChartProps> = ({ view, axis, beats = [], cursorTime = null, valves = null }) => {
+  const [curveType, setCurveType] = useState<CurveType>('strain');
+  const [showSegments, setShowSegments] = useState(false);
+
+  const curves = buildCurves(view, axis, curveType);
+  const segments = showSegments ? Object.keys(curves.segments).map(Number) : [];
+  const data = curves.global.map((sample, i) => ({
+    time: sample.time,
+    value: sample.value,
+    ...Object.fromEntries(segments.map(seg => [`s${seg}`, curves.segments[seg][i]?.value]))
+  }));
+
   return (
     <div className="w-full h-64 bg-slate-900/50 p-4 rounded-xl border border-slate-700/50">
-      <h3 className="text-sm font-semibold text-slate-400 mb-4 uppercase tracking-wider">Strain vs Time (GLS Curve)</h3>
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          {curveType === 'strain' ? 'Strain vs Time (GLS Curve)' : `${CURVE_LABELS[curveType]} vs Time`}
+        </h3>
+        <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={showSegments} onChange={(e) => setShowSegments(e.target.checked)} /> Segments
+          </label>
+          <select
+            value={curveType}
+            onChange={(e) => setCurveType(e.target.value as CurveType)}
+            className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200"
+          >
+            {(Object.keys(CURVE_LABELS) as CurveType[]).map(type => <option key={type} value={type}>{CURVE_LABELS[type]}</option>)}
+          </select>
+        </div>
+      </div>
       <ResponsiveContainer width="100%" height="100%">
         <LineChart data={data}>
           <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-          <XAxis 
-            dataKey="time" 
-            hide 
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            hide
           />
-          <YAxis 
-            stroke="#94a3b8" 
-            fontSize={12} 
-            tickFormatter={(val) => `${val}%`}
-            domain={[-30, 10]}
+          <YAxis
+            stroke="#94a3b8"
+            fontSize={12}
+            tickFormatter={(val) => (curveType === 'strain' ? `${val}%` : `${Number(val).toFixed(1)}`)}
+            domain={curveType === 'strain' ? [-30, 10] : ['auto', 'auto']}
+            label={curveType === 'strain' ? undefined : { value: curves.unit, angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 10 }}
           />
-          <Tooltip 
+          <Tooltip
             contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
             itemStyle={{ color: '#38bdf8' }}
+            formatter={(value: number, name: string) => [`${Number(value).toFixed(2)} ${curves.unit}`, name]}
           />
           <ReferenceLine y={0} stroke="#475569" strokeDasharray="5 5" />
-          <Line 
-            type="monotone" 
-            dataKey="strain" 
-            stroke="#38bdf8" 
-            strokeWidth={3} 
+          {/* End-diastole / end-systole markers for every detected beat */}
+          {beats.map((beat, i) => (
+            <ReferenceLine key={`ed-${i}`} x={beat.edTime} stroke="#22c55e" strokeDasharray="2 4" label={{ value: 'ED', position: 'top', fill: '#22c55e', fontSize: 9 }} />
+          ))}
+          {beats.map((beat, i) => (
+            <ReferenceLine key={`es-${i}`} x={beat.esTime} stroke="#f97316" strokeDasharray="2 4" label={{ value: 'ES', position: 'top', fill: '#f97316', fontSize: 9 }} />
+          ))}
+          {/* Valve events; closure of the mitral valve at end-diastole is not drawn twice */}
+          {valves && beats.flatMap((beat, i) => VALVE_EVENTS.filter(event => event !== 'mvc' || valves.mvc !== 0).map(event => (
+            <ReferenceLine key={`${event}-${i}`} x={beat.edTime + valves[event] / 1000} stroke="#a78bfa" strokeDasharray="1 3" label={{ value: event.toUpperCase(), position: 'insideBottom', fill: '#a78bfa', fontSize: 8 }} />
+          )))}
+          {cursorTime !== null && <ReferenceLine x={cursorTime} stroke="#e2e8f0" strokeWidth={1.5} />}
+          {segments.map((seg, i) => (
+            <Line
+              key={seg}
+              type="monotone"
+              dataKey={`s${seg}`}
+              name={AHA_SEGMENT_NAMES[seg]}
+              stroke={SEGMENT_COLORS[i % SEGMENT_COLORS.length]}
+              strokeWidth={1}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          <Line
+            type="monotone"
+            dataKey="value"
+            name="Global"
+            stroke="#38bdf8"
+            strokeWidth={3}
             dot={false}
             isAnimationActive={false}
           />
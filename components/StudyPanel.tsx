@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Save, FolderOpen, Download, Trash2, Upload } from 'lucide-react';
+import { StudySummary } from '../types';
+import { STUDY_FILE_EXTENSION } from '../services/studyStore';
+
+interface StudyPanelProps {
+  studies: StudySummary[];
+  currentId: string | null;
+  currentName: string;
+  busy: boolean;
+  error: string | null;
+  onSave: (name: string) => void;
+  onOpen: (id: string) => void;
+  onExport: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const StudyPanel: React.FC<StudyPanelProps> = ({ studies, currentId, currentName, busy, error, onSave, onOpen, onExport, onDelete, onImport }) => {
+  const [name, setName] = useState(currentName);
+
+  return (
+    <div className="w-96 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Study name"
+          className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white"
+        />
+        <button
+          onClick={() => onSave(name.trim() || 'Untitled study')}
+          disabled={busy}
+          className="flex items-center gap-1 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 text-white px-3 py-1.5 rounded-lg text-[10px] font-bold"
+        >
+          <Save size={12} /> {currentId ? 'UPDATE' : 'SAVE'}
+        </button>
+        <input
+          type="file"
+          accept={STUDY_FILE_EXTENSION}
+          id="study-import"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <label htmlFor="study-import" title="Import study file" className="cursor-pointer bg-slate-800 hover:bg-slate-700 text-slate-300 p-2 rounded-lg">
+          <Upload size={12} />
+        </label>
+      </div>
+
+      {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+
+      <div className="max-h-80 overflow-y-auto space-y-1">
+        {studies.length === 0 && <p className="text-[10px] text-slate-500 text-center py-4 uppercase tracking-widest font-bold">No saved studies</p>}
+        {studies.map(study => (
+          <div
+            key={study.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border ${study.id === currentId ? 'border-blue-500/40 bg-blue-500/5' : 'border-slate-800 bg-slate-950'}`}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-xs font-bold text-slate-200 truncate">{study.name}</div>
+              <div className="text-[9px] text-slate-500 font-bold tabular-nums">
+                {new Date(study.updatedAt).toLocaleString()} · {study.views.map(v => v.toUpperCase()).join(' + ') || 'No clips'}
+                {study.ef !== null && ` · EF ${study.ef.toFixed(1)}%`}
+              </div>
+            </div>
+            <button onClick={() => onOpen(study.id)} disabled={busy} title="Open" className="text-slate-400 hover:text-blue-400"><FolderOpen size={14} /></button>
+            <button onClick={() => onExport(study.id)} disabled={busy} title="Export to file" className="text-slate-400 hover:text-emerald-400"><Download size={14} /></button>
+            <button onClick={() => onDelete(study.id)} disabled={busy} title="Delete" className="text-slate-400 hover:text-red-400"><Trash2 size={14} /></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StudyPanel;
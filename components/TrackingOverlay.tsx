@@ -1,16 +1,36 @@
 
 import React, { useRef, useEffect } from 'react';
-import { TrackingPoint } from '../types';
+import { TrackingPoint, WallPolylines, Vector2 } from '../types';
 
 interface TrackingOverlayProps {
   mask: ImageData | null;
   points: TrackingPoint[];
+  walls?: WallPolylines;
   width: number; // Logical width (e.g. 600)
   height: number; // Logical height (e.g. 450)
+  // Edit mode: drag to move, click to add, right-click to delete
+  editable?: boolean;
+  onPointsChange?: (points: TrackingPoint[]) => void;
+  snap?: (point: Vector2) => Vector2;
 }
 
-const TrackingOverlay: React.FC<TrackingOverlayProps> = ({ mask, points, width, height }) => {
+const HIT_RADIUS = 8; // logical px
+
+const createManualPoint = (position: Vector2): TrackingPoint => ({
+  id: `manual-${Date.now()}-${Math.round(position.x)}-${Math.round(position.y)}`,
+  initial: position,
+  current: position,
+  velocity: { x: 0, y: 0 },
+  strain: 0,
+  peakStrain: 0,
+  segment: null,
+  quality: 1,
+  lowQuality: false
+});
+
+const TrackingOverlay: React.FC<TrackingOverlayProps> = ({ mask, points, walls, width, height, editable = false, onPointsChange, snap = p => p }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<string | null>(null);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -25,8 +45,25 @@ const TrackingOverlay: React.FC<TrackingOverlayProps> = ({ mask, points, width,
       ctx.putImageData(mask, 0, 0);
     }
 
-    // Draw structural lines connecting tracked points for better visualization of wall motion
-    if (points.length > 5) {
+    const drawPolyline = (ids: string[], style: string, dash: number[]) => {
+      const byId = new Map(points.map(p => [p.id, p]));
+      const chain = ids.map(id => byId.get(id)).filter((p): p is TrackingPoint => !!p);
+      if (chain.length < 2) return;
+      ctx.beginPath();
+      ctx.setLineDash(dash);
+      ctx.strokeStyle = style;
+      ctx.lineWidth = 2;
+      chain.forEach((pt, i) => i === 0 ? ctx.moveTo(pt.current.x, pt.current.y) : ctx.lineTo(pt.current.x, pt.current.y));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    if (walls && walls.endocardium.length > 0) {
+      // Endocardial trace (solid) and mid-wall trace (dashed) used for longitudinal strain
+      drawPolyline(walls.midwall, 'rgba(251, 191, 36, 0.5)', [4, 4]);
+      drawPolyline(walls.endocardium, 'rgba(56, 189, 248, 0.8)', []);
+    } else if (points.length > 5) {
+      // Draw structural lines connecting tracked points for better visualization of wall motion
       ctx.beginPath();
       ctx.strokeStyle = 'rgba(56, 189, 248, 0.15)';
       ctx.lineWidth = 1;
@@ -39,14 +76,94 @@ const TrackingOverlay: React.FC<TrackingOverlayProps> = ({ mask, points, width,
       });
       ctx.stroke();
     }
-  }, [mask, points, width, height]);
+
+    // Points whose block match fell below the quality threshold
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.9)';
+    ctx.lineWidth = 1.5;
+    points.forEach(pt => {
+      if (!pt.lowQuality) return;
+      ctx.beginPath();
+      ctx.moveTo(pt.current.x - 3, pt.current.y - 3);
+      ctx.lineTo(pt.current.x + 3, pt.current.y + 3);
+      ctx.moveTo(pt.current.x + 3, pt.current.y - 3);
+      ctx.lineTo(pt.current.x - 3, pt.current.y + 3);
+      ctx.stroke();
+    });
+
+    if (editable) {
+      ctx.fillStyle = 'rgba(56, 189, 248, 0.9)';
+      ctx.strokeStyle = '#0f172a';
+      ctx.lineWidth = 1;
+      points.forEach(pt => {
+        ctx.beginPath();
+        ctx.arc(pt.current.x, pt.current.y, 4, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+    }
+  }, [mask, points, walls, width, height, editable]);
+
+  const toLogical = (e: React.MouseEvent<HTMLCanvasElement>): Vector2 => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * (width / rect.width), y: (e.clientY - rect.top) * (height / rect.height) };
+  };
+
+  const hitTest = (pos: Vector2): TrackingPoint | null => {
+    let best: TrackingPoint | null = null;
+    let bestDist = HIT_RADIUS;
+    points.forEach(pt => {
+      const dist = Math.hypot(pt.current.x - pos.x, pt.current.y - pos.y);
+      if (dist <= bestDist) {
+        best = pt;
+        bestDist = dist;
+      }
+    });
+    return best;
+  };
+
+  const movePoint = (id: string, position: Vector2) => {
+    onPointsChange?.(points.map(pt => (pt.id === id ? { ...pt, initial: position, current: position } : pt)));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    const pos = toLogical(e);
+    const hit = hitTest(pos);
+    if (hit) dragRef.current = hit.id;
+    else onPointsChange?.([...points, createManualPoint(snap(pos))]);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    if (dragRef.current) movePoint(dragRef.current, toLogical(e));
+  };
+
+  // Snapping happens on release so the point follows the cursor while dragging
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    if (dragRef.current) movePoint(dragRef.current, snap(toLogical(e)));
+    dragRef.current = null;
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const hit = hitTest(toLogical(e));
+    if (hit) onPointsChange?.(points.filter(pt => pt.id !== hit.id));
+  };
 
   return (
     <canvas 
       ref={canvasRef} 
       width={width} 
       height={height} 
-      className="absolute top-0 left-0 w-full h-full pointer-events-none mix-blend-screen"
+      className={`absolute top-0 left-0 w-full h-full ${editable ? 'cursor-crosshair z-20' : 'pointer-events-none mix-blend-screen'}`}
+      onMouseDown={editable ? handleMouseDown : undefined}
+      onMouseMove={editable ? handleMouseMove : undefined}
+      onMouseUp={editable ? handleMouseUp : undefined}
+      onMouseLeave={editable ? handleMouseUp : undefined}
+      onContextMenu={editable ? handleContextMenu : undefined}
     />
   );
 };
@@ -0,0 +1,16 @@
+import { createPhantom } from '../utils/phantom';
+import { formatBenchmark, runBenchmark } from '../utils/benchmark';
+import { PhantomSettings } from '../types';
+
+// Headless accuracy benchmark of the tracking engine on synthetic phantoms: npm run benchmark
+const SCENARIOS: { name: string, settings: Partial<PhantomSettings> }[] = [
+  { name: 'Normal, GLS -20%', settings: { gls: -20 } },
+  { name: 'Apical hypokinesis (apical segments and apex at 30%)', settings: { gls: -20, hypokinesis: { 12: 0.3, 13: 0.3, 14: 0.3, 15: 0.3, 16: 0.3 } } },
+  { name: 'Noise SD 25 and +40% gain drift', settings: { gls: -18, noise: 25, gainChange: 0.4, seed: 7 } }
+];
+
+SCENARIOS.forEach(({ name, settings }) => {
+  const phantom = createPhantom(settings);
+  console.log(`\n${name} (${phantom.frameCount} frames at ${phantom.settings.fps} fps)`);
+  console.log(formatBenchmark(runBenchmark(phantom)));
+});
@@ -0,0 +1,85 @@
+export interface AnalysisControl {
+  signal: AbortSignal;
+  isPaused: () => boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Called between frames: waits while paused and throws once cancelled
+  checkpoint: () => Promise<void>;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis was cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export class SeekTimeoutError extends Error {
+  constructor(time: number, timeoutMs: number) {
+    super(`Video seek to ${time.toFixed(2)}s stalled for more than ${(timeoutMs / 1000).toFixed(0)}s`);
+    this.name = 'SeekTimeoutError';
+  }
+}
+
+export const createAnalysisControl = (): AnalysisControl => {
+  const controller = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    waiters.forEach(w => w());
+    waiters = [];
+  };
+
+  return {
+    signal: controller.signal,
+    isPaused: () => paused,
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    cancel: () => {
+      controller.abort();
+      release();
+    },
+    checkpoint: async () => {
+      while (paused && !controller.signal.aborted) {
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+      if (controller.signal.aborted) throw new AnalysisCancelledError();
+    }
+  };
+};
+
+// Resolves on 'seeked'; rejects when the seek stalls or the run is cancelled
+export const seekVideo = (video: HTMLVideoElement, time: number, signal: AbortSignal, timeoutMs: number): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.onseeked = null;
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new AnalysisCancelledError());
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new SeekTimeoutError(time, timeoutMs));
+    }, timeoutMs);
+    signal.addEventListener('abort', onAbort);
+    video.onseeked = () => {
+      cleanup();
+      resolve();
+    };
+    video.currentTime = time;
+  });
+};
@@ -0,0 +1,365 @@
+// Minimal DICOM Part 10 reader for multi-frame ultrasound cine loops. Supports native
+// (uncompressed) pixel data in implicit / explicit little endian and JPEG baseline.
+
+import { DicomIdentity } from '../types';
+
+export const TRANSFER_SYNTAX = {
+  implicitLittle: '1.2.840.10008.1.2',
+  explicitLittle: '1.2.840.10008.1.2.1',
+  jpegBaseline: '1.2.840.10008.1.2.4.50'
+};
+
+export interface DicomCine {
+  rows: number;
+  columns: number;
+  numberOfFrames: number;
+  samplesPerPixel: number;
+  bitsAllocated: number;
+  photometric: string;
+  planarConfiguration: number;
+  transferSyntax: string;
+  frameTimes: number[]; // s, from the start of the loop
+  fps: number;
+  heartRate: number | null; // bpm
+  physicalDeltaX: number | null; // cm per pixel
+  physicalDeltaY: number | null;
+  identity: DicomIdentity;
+  frames: Uint8Array[]; // raw native pixels or one JPEG bitstream per frame
+}
+
+export class DicomParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DicomParseError';
+  }
+}
+
+interface DicomElement {
+  vr: string;
+  offset: number;
+  length: number; // -1 for undefined length
+  items?: Map<string, DicomElement>[];
+  fragments?: Uint8Array[];
+}
+
+type Dataset = Map<string, DicomElement>;
+
+const UNDEFINED_LENGTH = 0xffffffff;
+const LONG_LENGTH_VRS = ['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV'];
+
+// VRs of the tags we read, for implicit VR datasets
+const IMPLICIT_VRS: { [tag: string]: string } = {
+  '00020002': 'UI', '00020003': 'UI', '00020010': 'UI',
+  '00080016': 'UI', '00080018': 'UI', '00080020': 'DA', '00080030': 'TM', '00080050': 'SH', '00080090': 'PN',
+  '00100010': 'PN', '00100020': 'LO', '00100030': 'DA', '00100040': 'CS',
+  '0020000D': 'UI', '0020000E': 'UI', '00200010': 'SH',
+  '00280002': 'US', '00280004': 'CS', '00280006': 'US', '00280008': 'IS', '00280010': 'US', '00280011': 'US', '00280100': 'US',
+  '00180040': 'IS', '00181063': 'DS', '00181065': 'DS', '00181088': 'IS',
+  '00186011': 'SQ', '00186024': 'US', '00186026': 'US', '0018602C': 'FD', '0018602E': 'FD',
+  '7FE00010': 'OW'
+};
+
+const tagKey = (group: number, element: number) =>
+  group.toString(16).toUpperCase().padStart(4, '0') + element.toString(16).toUpperCase().padStart(4, '0');
+
+const readDataset = (view: DataView, start: number, end: number, explicit: boolean): { dataset: Dataset, offset: number } => {
+  const dataset: Dataset = new Map();
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const group = view.getUint16(offset, true);
+    const element = view.getUint16(offset + 2, true);
+    const key = tagKey(group, element);
+
+    // Item / sequence delimiters end the enclosing item
+    if (group === 0xfffe) {
+      return { dataset, offset: offset + 8 };
+    }
+
+    let vr: string;
+    let length: number;
+    if (explicit) {
+      vr = String.fromCharCode(view.getUint8(offset + 4), view.getUint8(offset + 5));
+      if (LONG_LENGTH_VRS.includes(vr)) {
+        length = view.getUint32(offset + 8, true);
+        offset += 12;
+      } else {
+        length = view.getUint16(offset + 6, true);
+        offset += 8;
+      }
+    } else {
+      vr = IMPLICIT_VRS[key] || 'UN';
+      length = view.getUint32(offset + 4, true);
+      offset += 8;
+    }
+
+    if (key === '7FE00010' && length === UNDEFINED_LENGTH) {
+      const { fragments, offset: next } = readFragments(view, offset, end);
+      dataset.set(key, { vr, offset, length: -1, fragments });
+      offset = next;
+    } else if (vr === 'SQ' || length === UNDEFINED_LENGTH) {
+      const { items, offset: next } = readSequence(view, offset, length === UNDEFINED_LENGTH ? end : offset + length, explicit, length === UNDEFINED_LENGTH);
+      dataset.set(key, { vr: 'SQ', offset, length: length === UNDEFINED_LENGTH ? -1 : length, items });
+      offset = length === UNDEFINED_LENGTH ? next : offset + length;
+    } else {
+      dataset.set(key, { vr, offset, length });
+      offset += length;
+    }
+  }
+  return { dataset, offset };
+};
+
+const readSequence = (view: DataView, start: number, end: number, explicit: boolean, undefinedLength: boolean) => {
+  const items: Dataset[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const group = view.getUint16(offset, true);
+    const element = view.getUint16(offset + 2, true);
+    const length = view.getUint32(offset + 4, true);
+    offset += 8;
+    if (group === 0xfffe && element === 0xe0dd) break; // sequence delimitation
+    if (group !== 0xfffe || element !== 0xe000) throw new DicomParseError('Malformed sequence item');
+    if (length === UNDEFINED_LENGTH) {
+      const result = readDataset(view, offset, end, explicit);
+      items.push(result.dataset);
+      offset = result.offset;
+    } else {
+      items.push(readDataset(view, offset, offset + length, explicit).dataset);
+      offset += length;
+    }
+  }
+  return { items, offset: undefinedLength ? offset : end };
+};
+
+// Encapsulated pixel data: basic offset table item followed by one or more fragments per frame
+const readFragments = (view: DataView, start: number, end: number) => {
+  const fragments: Uint8Array[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const group = view.getUint16(offset, true);
+    const element = view.getUint16(offset + 2, true);
+    const length = view.getUint32(offset + 4, true);
+    offset += 8;
+    if (group === 0xfffe && element === 0xe0dd) break;
+    fragments.push(new Uint8Array(view.buffer, view.byteOffset + offset, length));
+    offset += length;
+  }
+  return { fragments, offset };
+};
+
+const readString = (view: DataView, el: DicomElement | undefined): string | null => {
+  if (!el || el.length <= 0) return null;
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + el.offset, el.length);
+  return new TextDecoder('latin1').decode(bytes).replace(/[\0 ]+$/, '').trim();
+};
+
+const readNumbers = (view: DataView, el: DicomElement | undefined): number[] => {
+  if (!el || el.length <= 0) return [];
+  switch (el.vr) {
+    case 'US': return [view.getUint16(el.offset, true)];
+    case 'UL': return [view.getUint32(el.offset, true)];
+    case 'FL': return [view.getFloat32(el.offset, true)];
+    case 'FD': return [view.getFloat64(el.offset, true)];
+    default: return (readString(view, el) || '').split('\\').map(Number).filter(n => !Number.isNaN(n));
+  }
+};
+
+const readNumber = (view: DataView, el: DicomElement | undefined): number | null => {
+  const values = readNumbers(view, el);
+  return values.length > 0 ? values[0] : null;
+};
+
+const startsWithSoi = (fragment: Uint8Array) => fragment.length > 1 && fragment[0] === 0xff && fragment[1] === 0xd8;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+// Groups fragments into frames: one per fragment when the counts match, otherwise a new
+// frame starts at every fragment opening with a JPEG start-of-image marker.
+const groupFragments = (fragments: Uint8Array[], numberOfFrames: number): Uint8Array[] => {
+  const data = fragments.slice(1); // skip the basic offset table
+  if (data.length === numberOfFrames) return data;
+  if (numberOfFrames === 1) return [concat(data)];
+  const frames: Uint8Array[][] = [];
+  data.forEach(fragment => {
+    if (startsWithSoi(fragment) || frames.length === 0) frames.push([fragment]);
+    else frames[frames.length - 1].push(fragment);
+  });
+  return frames.map(concat);
+};
+
+// Patient, study and instance identification; the SOP UIDs fall back to the file meta information
+const readIdentity = (view: DataView, dataset: Dataset, mediaStorage: { sopClassUid: string | null, sopInstanceUid: string | null }): DicomIdentity => {
+  const text = (tag: string) => readString(view, dataset.get(tag)) || null;
+  return {
+    patientName: text('00100010'),
+    patientId: text('00100020'),
+    patientBirthDate: text('00100030'),
+    patientSex: text('00100040'),
+    studyInstanceUid: text('0020000D'),
+    studyDate: text('00080020'),
+    studyTime: text('00080030'),
+    studyId: text('00200010'),
+    accessionNumber: text('00080050'),
+    referringPhysician: text('00080090'),
+    seriesInstanceUid: text('0020000E'),
+    sopClassUid: text('00080016') ?? mediaStorage.sopClassUid,
+    sopInstanceUid: text('00080018') ?? mediaStorage.sopInstanceUid
+  };
+};
+
+export const isDicomFile = (buffer: ArrayBuffer): boolean => {
+  if (buffer.byteLength < 132) return false;
+  const magic = new Uint8Array(buffer, 128, 4);
+  return String.fromCharCode(...magic) === 'DICM';
+};
+
+export const parseDicom = (buffer: ArrayBuffer): DicomCine => {
+  const view = new DataView(buffer);
+  let offset = 0;
+  let transferSyntax = TRANSFER_SYNTAX.implicitLittle;
+  let mediaStorage: { sopClassUid: string | null, sopInstanceUid: string | null } = { sopClassUid: null, sopInstanceUid: null };
+
+  if (isDicomFile(buffer)) {
+    // File meta information is explicit VR little endian and opens with its group length
+    const groupLength = view.getUint32(140, true);
+    const { dataset: meta } = readDataset(view, 132, 144 + groupLength, true);
+    offset = 144 + groupLength;
+    transferSyntax = readString(view, meta.get('00020010')) || transferSyntax;
+    mediaStorage = { sopClassUid: readString(view, meta.get('00020002')), sopInstanceUid: readString(view, meta.get('00020003')) };
+  }
+
+  if (![TRANSFER_SYNTAX.implicitLittle, TRANSFER_SYNTAX.explicitLittle, TRANSFER_SYNTAX.jpegBaseline].includes(transferSyntax)) {
+    throw new DicomParseError(`Unsupported transfer syntax ${transferSyntax}`);
+  }
+
+  const explicit = transferSyntax !== TRANSFER_SYNTAX.implicitLittle;
+  const { dataset } = readDataset(view, offset, buffer.byteLength, explicit);
+
+  const rows = readNumber(view, dataset.get('00280010'));
+  const columns = readNumber(view, dataset.get('00280011'));
+  const pixelData = dataset.get('7FE00010');
+  if (!rows || !columns || !pixelData) throw new DicomParseError('File has no image pixel data');
+
+  const numberOfFrames = readNumber(view, dataset.get('00280008')) || 1;
+  const samplesPerPixel = readNumber(view, dataset.get('00280002')) || 1;
+  const bitsAllocated = readNumber(view, dataset.get('00280100')) || 8;
+  const photometric = readString(view, dataset.get('00280004')) || 'MONOCHROME2';
+  const planarConfiguration = readNumber(view, dataset.get('00280006')) || 0;
+
+  let frames: Uint8Array[];
+  if (pixelData.fragments) {
+    frames = groupFragments(pixelData.fragments, numberOfFrames);
+  } else {
+    const frameBytes = rows * columns * samplesPerPixel * (bitsAllocated / 8);
+    frames = Array.from({ length: numberOfFrames }, (_, i) =>
+      new Uint8Array(buffer, pixelData.offset + i * frameBytes, Math.min(frameBytes, Math.max(0, pixelData.length - i * frameBytes)))
+    ).filter(f => f.length === frameBytes);
+  }
+  if (frames.length === 0) throw new DicomParseError('No decodable frames found');
+
+  // Frame timing: Frame Time Vector, then Frame Time, then Cine Rate
+  const frameTimeVector = readNumbers(view, dataset.get('00181065'));
+  const frameTime = readNumber(view, dataset.get('00181063'));
+  const cineRate = readNumber(view, dataset.get('00180040'));
+  const defaultInterval = frameTime ? frameTime / 1000 : cineRate ? 1 / cineRate : 1 / 30;
+  const frameTimes: number[] = [];
+  frames.forEach((_, i) => {
+    if (i === 0) frameTimes.push(0);
+    else frameTimes.push(frameTimes[i - 1] + (frameTimeVector.length > i ? frameTimeVector[i] / 1000 : defaultInterval));
+  });
+  const duration = frameTimes[frameTimes.length - 1];
+  const fps = frames.length > 1 && duration > 0 ? (frames.length - 1) / duration : 1 / defaultInterval;
+
+  // Ultrasound region calibration: first region whose physical units are centimetres (3)
+  const regions = dataset.get('00186011')?.items || [];
+  const region = regions.find(r => readNumber(view, r.get('00186024')) === 3 && readNumber(view, r.get('00186026')) === 3);
+
+  return {
+    rows,
+    columns,
+    numberOfFrames: frames.length,
+    samplesPerPixel,
+    bitsAllocated,
+    photometric,
+    planarConfiguration,
+    transferSyntax,
+    frameTimes,
+    fps,
+    heartRate: readNumber(view, dataset.get('00181088')) || null,
+    physicalDeltaX: region ? Math.abs(readNumber(view, region.get('0018602C')) || 0) || null : null,
+    physicalDeltaY: region ? Math.abs(readNumber(view, region.get('0018602E')) || 0) || null : null,
+    identity: readIdentity(view, dataset, mediaStorage),
+    frames
+  };
+};
+
+// Native pixels to RGBA at the stored resolution; 16-bit data is windowed to its own range
+const nativeToImageData = (cine: DicomCine, raw: Uint8Array): ImageData => {
+  const { rows, columns, samplesPerPixel, bitsAllocated, photometric, planarConfiguration } = cine;
+  const pixels = rows * columns;
+  const out = new ImageData(columns, rows);
+  const invert = photometric === 'MONOCHROME1';
+
+  if (samplesPerPixel === 1) {
+    let values: ArrayLike<number> = raw;
+    let min = 0, max = 255;
+    if (bitsAllocated === 16) {
+      values = new Uint16Array(raw.buffer.slice(raw.byteOffset, raw.byteOffset + pixels * 2));
+      min = Infinity; max = -Infinity;
+      for (let i = 0; i < pixels; i++) {
+        min = Math.min(min, values[i]);
+        max = Math.max(max, values[i]);
+      }
+    }
+    const range = max - min || 1;
+    for (let i = 0; i < pixels; i++) {
+      let v = ((values[i] - min) / range) * 255;
+      if (invert) v = 255 - v;
+      out.data[i * 4] = out.data[i * 4 + 1] = out.data[i * 4 + 2] = v;
+      out.data[i * 4 + 3] = 255;
+    }
+  } else if (samplesPerPixel === 3 && bitsAllocated === 8) {
+    for (let i = 0; i < pixels; i++) {
+      for (let c = 0; c < 3; c++) {
+        out.data[i * 4 + c] = planarConfiguration === 1 ? raw[c * pixels + i] : raw[i * 3 + c];
+      }
+      out.data[i * 4 + 3] = 255;
+    }
+  } else {
+    throw new DicomParseError(`Unsupported pixel format: ${samplesPerPixel} samples, ${bitsAllocated} bits`);
+  }
+  return out;
+};
+
+// Draws frame `index` stretched to the target canvas context
+export const drawDicomFrame = async (cine: DicomCine, index: number, ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const raw = cine.frames[index];
+  if (cine.transferSyntax === TRANSFER_SYNTAX.jpegBaseline) {
+    const bitmap = await createImageBitmap(new Blob([raw as Uint8Array<ArrayBuffer>], { type: 'image/jpeg' }));
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return;
+  }
+  const image = nativeToImageData(cine, raw);
+  const scratch = document.createElement('canvas');
+  scratch.width = image.width;
+  scratch.height = image.height;
+  scratch.getContext('2d')!.putImageData(image, 0, 0);
+  ctx.drawImage(scratch, 0, 0, width, height);
+};
+
+// mm per pixel once the frame is stretched to width x height; anisotropic spacing is averaged
+export const getFrameSpacing = (cine: DicomCine, width: number, height: number): number | null => {
+  if (!cine.physicalDeltaX || !cine.physicalDeltaY) return null;
+  const x = (cine.physicalDeltaX * 10 * cine.columns) / width;
+  const y = (cine.physicalDeltaY * 10 * cine.rows) / height;
+  return (x + y) / 2;
+};
@@ -0,0 +1,30 @@
+import { seekVideo } from './analysisControl';
+import { DicomCine, drawDicomFrame } from './dicom';
+
+// A clip the analysis loop can read frame by frame, whatever it was loaded from
+export interface FrameSource {
+  frameCount: number;
+  fps: number;
+  timeAt: (index: number) => number; // s
+  // Draws frame `index` stretched to width x height
+  drawFrame: (index: number, ctx: CanvasRenderingContext2D, width: number, height: number) => Promise<void>;
+}
+
+// Samples a video element at a fixed rate; each frame waits for its seek to land
+export const createVideoFrameSource = (video: HTMLVideoElement, fps: number, signal: AbortSignal, seekTimeoutMs: number): FrameSource => ({
+  frameCount: Math.ceil(video.duration * fps),
+  fps,
+  timeAt: index => index / fps,
+  drawFrame: async (index, ctx, width, height) => {
+    await seekVideo(video, index / fps, signal, seekTimeoutMs);
+    ctx.drawImage(video, 0, 0, width, height);
+  }
+});
+
+// Every stored frame of a DICOM cine loop, timed by the file
+export const createDicomFrameSource = (cine: DicomCine): FrameSource => ({
+  frameCount: cine.numberOfFrames,
+  fps: cine.fps,
+  timeAt: index => cine.frameTimes[index],
+  drawFrame: (index, ctx, width, height) => drawDicomFrame(cine, index, ctx, width, height)
+});
@@ -0,0 +1,123 @@
+import { FrameContext, FrameOutput, MotionWorkerRequest, MotionWorkerResponse } from '../types';
+
+export interface MotionJob {
+  id: string;
+  // Transfers the frame buffer to the worker; resolves when that frame has been analysed
+  processFrame: (frame: ImageData) => Promise<FrameOutput>;
+  // Rejects every pending frame and resolves once the worker has dropped the job
+  cancel: () => Promise<void>;
+  finish: () => void;
+}
+
+export interface MotionPool {
+  startJob: (context: FrameContext) => MotionJob;
+  terminate: () => void;
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Motion job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface Pending {
+  resolve: (output: FrameOutput) => void;
+  reject: (err: Error) => void;
+}
+
+export const createMotionPool = (size: number = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))): MotionPool => {
+  const workers = Array.from({ length: size }, () =>
+    new Worker(new URL('../workers/motionWorker.ts', import.meta.url), { type: 'module' })
+  );
+  const load = workers.map(() => 0);
+  const pending = new Map<string, Map<number, Pending>>();
+  const cancelled = new Map<string, () => void>();
+  let nextJob = 0;
+
+  const rejectAll = (jobId: string, err: Error) => {
+    pending.get(jobId)?.forEach(p => p.reject(err));
+    pending.delete(jobId);
+  };
+
+  workers.forEach(worker => {
+    worker.onmessage = (e: MessageEvent<MotionWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'frame') {
+        const frames = pending.get(msg.jobId);
+        frames?.get(msg.frameIndex)?.resolve(msg.output);
+        frames?.delete(msg.frameIndex);
+      } else if (msg.type === 'error') {
+        const frames = pending.get(msg.jobId);
+        if (msg.frameIndex !== null) {
+          frames?.get(msg.frameIndex)?.reject(new Error(msg.message));
+          frames?.delete(msg.frameIndex);
+        } else {
+          rejectAll(msg.jobId, new Error(msg.message));
+        }
+      } else if (msg.type === 'cancelled') {
+        cancelled.get(msg.jobId)?.();
+        cancelled.delete(msg.jobId);
+      }
+    };
+  });
+
+  const startJob = (context: FrameContext): MotionJob => {
+    const id = `job-${nextJob++}`;
+    // Jobs are stateful, so each one stays on the least busy worker for its whole lifetime
+    const slot = load.indexOf(Math.min(...load));
+    const worker = workers[slot];
+    load[slot]++;
+    pending.set(id, new Map());
+    let frameIndex = 0;
+    let active = true;
+
+    const send = (msg: MotionWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+    const release = () => {
+      if (!active) return;
+      active = false;
+      load[slot]--;
+    };
+
+    send({ type: 'start', jobId: id, context });
+
+    return {
+      id,
+      processFrame: (frame: ImageData) => new Promise<FrameOutput>((resolve, reject) => {
+        if (!active) {
+          reject(new JobCancelledError(id));
+          return;
+        }
+        const index = frameIndex++;
+        pending.get(id)!.set(index, { resolve, reject });
+        const buffer = frame.data.buffer as ArrayBuffer;
+        send({ type: 'frame', jobId: id, frameIndex: index, width: frame.width, height: frame.height, buffer }, [buffer]);
+      }),
+      cancel: () => new Promise<void>(resolve => {
+        if (!active) {
+          resolve();
+          return;
+        }
+        rejectAll(id, new JobCancelledError(id));
+        cancelled.set(id, resolve);
+        release();
+        send({ type: 'cancel', jobId: id });
+      }),
+      finish: () => {
+        if (!active) return;
+        pending.delete(id);
+        release();
+        send({ type: 'finish', jobId: id });
+      }
+    };
+  };
+
+  const terminate = () => {
+    pending.forEach((_, jobId) => rejectAll(jobId, new JobCancelledError(jobId)));
+    cancelled.forEach(resolve => resolve());
+    cancelled.clear();
+    workers.forEach(w => w.terminate());
+  };
+
+  return { startJob, terminate };
+};
@@ -0,0 +1,50 @@
+import { AnalysisResult } from '../types';
+import { buildDicomSr, buildReportHtml, buildReportJson, ReportCharts } from '../utils/report';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const fileStem = (analysis: AnalysisResult) => `cardiastrain-${new Date(analysis.timestamp).toISOString().replace(/[:.]/g, '-')}`;
+
+// Outer markup of the first SVG inside a rendered chart, for embedding in the report
+export const captureSvg = (container: HTMLElement | null): string | null => {
+  const svg = container?.querySelector('svg');
+  if (!svg) return null;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return clone.outerHTML;
+};
+
+export const exportJson = (analysis: AnalysisResult) => {
+  const json = JSON.stringify(buildReportJson(analysis), null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), `${fileStem(analysis)}.json`);
+};
+
+// DICOM JSON model, ready to STOW to an archive
+export const exportDicomSr = (analysis: AnalysisResult) => {
+  const json = JSON.stringify([buildDicomSr(analysis)], null, 2);
+  downloadBlob(new Blob([json], { type: 'application/dicom+json' }), `${fileStem(analysis)}-sr.json`);
+};
+
+export const exportHtml = (analysis: AnalysisResult, charts: ReportCharts) => {
+  downloadBlob(new Blob([buildReportHtml(analysis, charts)], { type: 'text/html' }), `${fileStem(analysis)}.html`);
+};
+
+// Opens the report in a new window and hands it to the browser's print dialog (Save as PDF)
+export const printReport = (analysis: AnalysisResult, charts: ReportCharts): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(buildReportHtml(analysis, charts));
+  win.document.close();
+  // Everything is inline, so the document is complete as soon as it is written
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,180 @@
+import { StudySession, StudySummary, StoredClip, ViewId, SessionView } from '../types';
+import { VIEW_IDS } from '../utils/views';
+
+const DB_NAME = 'cardiastrain';
+const DB_VERSION = 1;
+const STORE = 'studies';
+
+// Single-file layout: magic, manifest length (u32 LE), manifest JSON, then the clip bytes
+const FILE_MAGIC = 'CSTUDY01';
+const MANIFEST_VERSION = 1; // files written before the manifest carried a version are version 1
+export const STUDY_FILE_EXTENSION = '.cstudy';
+
+export class StudyFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StudyFileError';
+  }
+}
+
+interface ClipEntry {
+  kind: StoredClip['kind'];
+  name: string;
+  type: string;
+  offset: number;
+  size: number;
+}
+
+type StudyManifest = Omit<StudySession, 'views'> & {
+  version?: number;
+  views: { [key in ViewId]?: Omit<SessionView, 'clip'> & { clip: ClipEntry | null } };
+};
+
+export const createStudyId = () => `study-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+const summarize = (session: StudySession): StudySummary => ({
+  id: session.id,
+  name: session.name,
+  updatedAt: session.updatedAt,
+  ef: session.result ? session.result.biplaneEf : null,
+  views: VIEW_IDS.filter(v => session.views[v]?.isProcessed || session.views[v]?.clip)
+});
+
+// Newest first
+export const listStudies = async (): Promise<StudySummary[]> => {
+  const sessions = await withStore<StudySession[]>('readonly', store => store.getAll());
+  return sessions.map(summarize).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveStudy = (session: StudySession): Promise<IDBValidKey> => withStore('readwrite', store => store.put(session));
+
+export const loadStudy = async (id: string): Promise<StudySession | null> => {
+  const session = await withStore<StudySession | undefined>('readonly', store => store.get(id));
+  return session ?? null;
+};
+
+export const deleteStudy = (id: string): Promise<undefined> => withStore('readwrite', store => store.delete(id));
+
+export const exportStudyFile = (session: StudySession): Blob => {
+  const blobs: Blob[] = [];
+  let offset = 0;
+  const views = {} as StudyManifest['views'];
+  VIEW_IDS.forEach(v => {
+    if (!session.views[v]) return;
+    const { clip, ...rest } = session.views[v]!;
+    let entry: ClipEntry | null = null;
+    if (clip) {
+      entry = { kind: clip.kind, name: clip.name, type: clip.blob.type, offset, size: clip.blob.size };
+      blobs.push(clip.blob);
+      offset += clip.blob.size;
+    }
+    views[v] = { ...rest, clip: entry };
+  });
+
+  const manifest = new TextEncoder().encode(JSON.stringify({ ...session, version: MANIFEST_VERSION, views }));
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, manifest.length, true);
+  return new Blob([FILE_MAGIC, length, manifest, ...blobs], { type: 'application/octet-stream' });
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Checks everything building and restoring the session relies on, so a damaged or foreign
+// manifest is reported instead of failing halfway through the restore
+const validateManifest = (manifest: unknown): StudyManifest => {
+  if (!isObject(manifest)) throw new StudyFileError('Study manifest is not an object');
+  if (manifest.version !== undefined && manifest.version !== MANIFEST_VERSION) {
+    throw new StudyFileError(`Study file version ${String(manifest.version)} is not supported (expected ${MANIFEST_VERSION})`);
+  }
+  if (typeof manifest.name !== 'string') throw new StudyFileError('Study manifest has no name');
+  if (typeof manifest.createdAt !== 'number') throw new StudyFileError('Study manifest has no creation date');
+  if (!isObject(manifest.views)) throw new StudyFileError('Study manifest has no views');
+  if (manifest.hrOverride !== undefined && manifest.hrOverride !== null && typeof manifest.hrOverride !== 'number') {
+    throw new StudyFileError('Study manifest has an invalid heart rate override');
+  }
+  if (manifest.tracking !== undefined && !isObject(manifest.tracking)) throw new StudyFileError('Study manifest has invalid tracking settings');
+  const views = manifest.views;
+  VIEW_IDS.forEach(v => {
+    const view = views[v];
+    if (view === undefined || view === null) return;
+    const label = v.toUpperCase();
+    if (!isObject(view)) throw new StudyFileError(`View ${label} is not an object`);
+    if (typeof view.isProcessed !== 'boolean') throw new StudyFileError(`View ${label} has no processed flag`);
+    const { analysis, clip } = view;
+    if (!isObject(analysis)) throw new StudyFileError(`View ${label} has no analysis`);
+    if (!Array.isArray(analysis.history) || !Array.isArray(analysis.beats) || !Array.isArray(analysis.points)) {
+      throw new StudyFileError(`Analysis of ${label} is missing its history, beats or points`);
+    }
+    if (!isObject(analysis.segmentCurves) || !isObject(analysis.walls)) throw new StudyFileError(`Analysis of ${label} is missing its segment curves or wall traces`);
+    if (clip !== null && clip !== undefined) {
+      if (!isObject(clip) || (clip.kind !== 'video' && clip.kind !== 'dicom') || typeof clip.name !== 'string' || typeof clip.type !== 'string' || !isCount(clip.offset) || !isCount(clip.size)) {
+        throw new StudyFileError(`Clip entry of ${label} is invalid`);
+      }
+    }
+  });
+  const { result } = manifest;
+  if (result !== undefined && result !== null) {
+    if (!isObject(result) || typeof result.biplaneEf !== 'number' || !isObject(result.segments) || !Array.isArray(result.segments.detailed)) {
+      throw new StudyFileError('Study result is invalid');
+    }
+  }
+  return manifest as unknown as StudyManifest;
+};
+
+// Imported studies get a fresh id so they never overwrite a local copy
+export const importStudyFile = async (file: Blob): Promise<StudySession> => {
+  const header = new Uint8Array(await file.slice(0, FILE_MAGIC.length + 4).arrayBuffer());
+  if (header.length < FILE_MAGIC.length + 4 || new TextDecoder().decode(header.slice(0, FILE_MAGIC.length)) !== FILE_MAGIC) {
+    throw new StudyFileError('Not a CardiaStrain study file');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(FILE_MAGIC.length, true);
+  const dataStart = FILE_MAGIC.length + 4 + manifestLength;
+  if (dataStart > file.size) throw new StudyFileError('Study file is truncated');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.slice(FILE_MAGIC.length + 4, dataStart).text());
+  } catch {
+    throw new StudyFileError('Study manifest is not valid JSON');
+  }
+  const { version, ...manifest } = validateManifest(parsed);
+
+  const views = {} as StudySession['views'];
+  VIEW_IDS.forEach(v => {
+    if (!manifest.views[v]) return;
+    const { clip, analysis, ...rest } = manifest.views[v]!;
+    if (clip && dataStart + clip.offset + clip.size > file.size) throw new StudyFileError(`Clip for ${v.toUpperCase()} is truncated`);
+    views[v] = {
+      ...rest,
+      // JSON turns the untouched Infinity minimum into null
+      analysis: { ...analysis, minArea: analysis.minArea ?? Infinity },
+      clip: clip ? { kind: clip.kind, name: clip.name, blob: file.slice(dataStart + clip.offset, dataStart + clip.offset + clip.size, clip.type) } : null
+    };
+  });
+
+  return { ...manifest, id: createStudyId(), updatedAt: Date.now(), result: manifest.result ?? null, hrOverride: manifest.hrOverride ?? null, views };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { ViewAnalysis } from '../types';
+import { accumulateFrame, finalizeView } from '../utils/analysis';
+import { DEFAULT_TRACKING_SETTINGS } from '../utils/motion';
+import { layoutPoints, measureFrame } from '../utils/pipeline';
+import { createPhantom } from '../utils/phantom';
+import { buildContour, computeViewVolumes, computeVolumes } from '../utils/volumes';
+import { cavityOutline, emptyView, frameOutput, scaleAbout, trackingPoint } from './fixtures';
+
+const outline = (scale: number) => cavityOutline(scale).map((p, i) => trackingPoint(`p${i}`, p));
+
+describe('accumulateFrame', () => {
+  it('keeps the largest and smallest cavities as ED and ES', () => {
+    const view = [1, 0.8, 0.9].reduce(
+      (acc, scale, i) => accumulateFrame(acc, frameOutput(outline(scale), (scale - 1) * 100, { 0: (scale - 1) * 50 }), i / 30),
+      emptyView()
+    );
+    expect(view.history.map(s => s.time)).toEqual([0, 1 / 30, 2 / 30]);
+    expect(view.gls).toBeCloseTo(-20, 10);
+    expect(view.maxArea).toBeCloseTo(view.history[0].area, 10);
+    expect(view.minArea).toBeCloseTo(view.history[1].area, 10);
+    expect(view.minArea / view.maxArea).toBeCloseTo(0.64, 10);
+    expect(view.edContour).toBe(view.history[0].contour);
+    expect(view.esContour).toBe(view.history[1].contour);
+    expect(view.segmentCurves[0].map(s => s.strain)).toEqual([0, -10, -5].map(v => expect.closeTo(v, 10)));
+  });
+
+  it('measures displacement and speed from the tracked points', () => {
+    const moved = { ...trackingPoint('a', { x: 0, y: 0 }, { x: 3, y: 4 }), velocity: { x: 30, y: 40 } };
+    const view = accumulateFrame(emptyView(), frameOutput([moved]), 0);
+    expect(view.peakDisplacement).toBe(5);
+    expect(view.peakVelocity).toBe(50);
+  });
+
+  it('records a frame without points but leaves the cavity extremes alone', () => {
+    const tracked = accumulateFrame(emptyView(), frameOutput(outline(1)), 0);
+    const view = accumulateFrame(tracked, frameOutput([]), 1 / 30);
+    expect(view.history).toHaveLength(2);
+    expect(view.history[1]).toMatchObject({ area: 0, contour: null, points: [] });
+    expect(view.minArea).toBe(tracked.minArea);
+    expect(view.esContour).toBe(tracked.esContour);
+    expect(view.peakDisplacement).toBe(0);
+  });
+});
+
+describe('volumes', () => {
+  const withContours = (ed: number, es: number): ViewAnalysis => ({
+    ...emptyView(), edContour: buildContour(cavityOutline(ed)), esContour: buildContour(cavityOutline(es))
+  });
+
+  it('gives the EF of a uniformly shrunken cavity', () => {
+    // Volume goes with the cube of the scale
+    expect(computeViewVolumes(withContours(1, 0.8))!.ef).toBeCloseTo(48.8, 6);
+    const biplane = computeVolumes(withContours(1, 0.8), withContours(1.1, 0.88))!;
+    expect(biplane.method).toBe('biplane');
+    expect(biplane.unit).toBe('px³');
+    expect(biplane.ef).toBeCloseTo(48.8, 6);
+    expect(biplane.sv).toBeCloseTo(biplane.edv - biplane.esv, 10);
+  });
+
+  it('falls back to a single plane and to nothing without contours', () => {
+    expect(computeVolumes(withContours(1, 0.8), emptyView())!.method).toBe('single-plane');
+    expect(computeVolumes(emptyView(), null)).toBeNull();
+    expect(computeViewVolumes(emptyView())).toBeNull();
+  });
+});
+
+describe('finalizeView', () => {
+  const phantom = createPhantom();
+  const apex = { x: phantom.settings.width / 2, y: phantom.settings.height * 0.2 };
+  const { points, walls } = layoutPoints('a4c', phantom.seedPoints, phantom.roi);
+
+  // Wall scaled about the apex by 1 - 0.1 * (1 - cos) / 2: peak shortening of 10 % once a second
+  const cardiacView = (frameCount: number): ViewAnalysis => Array.from({ length: frameCount }).reduce<ViewAnalysis>((view, _, i) => {
+    const scale = 1 - 0.05 * (1 - Math.cos((2 * Math.PI * i) / 30));
+    const measured = measureFrame('a4c', scaleAbout(points, apex, scale), walls, DEFAULT_TRACKING_SETTINGS);
+    return accumulateFrame(view, { ...frameOutput(measured.points, measured.strain, measured.segments), walls }, i / 30);
+  }, emptyView());
+
+  it('averages GLS and EF over the detected beats', () => {
+    const view = finalizeView(cardiacView(75), 'a4c', phantom.roi, DEFAULT_TRACKING_SETTINGS);
+    expect(view.beats.filter(b => b.complete)).toHaveLength(2);
+    expect(view.beats.map(b => b.esFrame)).toEqual([15, 45]);
+    expect(view.quality!.excluded).toEqual([]);
+    expect(view.gls).toBeCloseTo(-10, 6);
+    expect(view.ef).toBeCloseTo((1 - 0.9 ** 3) * 100, 6);
+    expect(view.strainRate!.srs).toBeLessThan(0);
+  });
+
+  it('falls back to the clip peak and ED/ES contours without a beat', () => {
+    const clip = cardiacView(4);
+    const view = finalizeView(clip, 'a4c', phantom.roi, DEFAULT_TRACKING_SETTINGS);
+    expect(view.beats).toEqual([]);
+    expect(view.gls).toBe(clip.gls);
+    expect(view.ef).toBeCloseTo(computeViewVolumes(clip)!.ef, 10);
+    expect(view.ef).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseDicom } from '../services/dicom';
+import { dicomFile } from './fixtures';
+
+describe('parseDicom identity', () => {
+  it('reads patient, study and instance identification', () => {
+    const cine = parseDicom(dicomFile([
+      ['00080016', 'UI', '1.2.840.10008.5.1.4.1.1.3.1'],
+      ['00080018', 'UI', '1.2.3.4.5.1'],
+      ['00080020', 'DA', '20260314'],
+      ['00080030', 'TM', '101500'],
+      ['00080050', 'SH', 'ACC123'],
+      ['00080090', 'PN', 'Heart^Helen'],
+      ['00100010', 'PN', 'Doe^Jane'],
+      ['00100020', 'LO', 'MRN-0042'],
+      ['00100030', 'DA', '19700101'],
+      ['00100040', 'CS', 'F'],
+      ['0020000D', 'UI', '1.2.3.4'],
+      ['0020000E', 'UI', '1.2.3.4.5'],
+      ['00200010', 'SH', 'ECHO1']
+    ]));
+    expect(cine.identity).toEqual({
+      patientName: 'Doe^Jane',
+      patientId: 'MRN-0042',
+      patientBirthDate: '19700101',
+      patientSex: 'F',
+      studyInstanceUid: '1.2.3.4',
+      studyDate: '20260314',
+      studyTime: '101500',
+      studyId: 'ECHO1',
+      accessionNumber: 'ACC123',
+      referringPhysician: 'Heart^Helen',
+      seriesInstanceUid: '1.2.3.4.5',
+      sopClassUid: '1.2.840.10008.5.1.4.1.1.3.1',
+      sopInstanceUid: '1.2.3.4.5.1'
+    });
+  });
+
+  it('takes the SOP UIDs from the file meta information when the dataset lacks them', () => {
+    const cine = parseDicom(dicomFile([], [['00020002', 'UI', '1.2.840.10008.5.1.4.1.1.3.1'], ['00020003', 'UI', '1.2.3.9']]));
+    expect(cine.identity.sopClassUid).toBe('1.2.840.10008.5.1.4.1.1.3.1');
+    expect(cine.identity.sopInstanceUid).toBe('1.2.3.9');
+  });
+
+  it('leaves absent tags null', () => {
+    const { identity } = parseDicom(dicomFile([]));
+    expect(Object.values(identity).every(v => v === null)).toBe(true);
+  });
+});
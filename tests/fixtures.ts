@@ -0,0 +1,117 @@
+import { FrameOutput, GrayImage, ROI, TrackingPoint, Vector2, ViewAnalysis } from '../types';
+import { createEmptyAnalysis } from '../utils/analysis';
+import { EMPTY_WALLS } from '../utils/strain';
+
+export const WIDTH = 120;
+export const HEIGHT = 100;
+
+export const grayImage = (width = WIDTH, height = HEIGHT, fill = 0): GrayImage =>
+  ({ data: new Uint8ClampedArray(width * height).fill(fill), width, height });
+
+export const fillRect = (image: GrayImage, rect: ROI, value: number): GrayImage => {
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) image.data[y * image.width + x] = value;
+  }
+  return image;
+};
+
+// Deterministic white-noise speckle addressed by pattern coordinates, so a translated copy
+// has no wrapped or blank border
+const speckleAt = (x: number, y: number) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return (h ^ (h >>> 16)) & 0xff;
+};
+
+// Speckle pattern moved by a whole-pixel offset
+export const speckleImage = (offset: Vector2 = { x: 0, y: 0 }, width = WIDTH, height = HEIGHT): GrayImage => {
+  const image = grayImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) image.data[y * width + x] = speckleAt(x - offset.x, y - offset.y);
+  }
+  return image;
+};
+
+// Gray image as the RGBA buffer a decoded frame arrives in
+export const toRgba = (image: GrayImage): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(image.data.length * 4);
+  image.data.forEach((v, i) => {
+    rgba[4 * i] = rgba[4 * i + 1] = rgba[4 * i + 2] = v;
+    rgba[4 * i + 3] = 255;
+  });
+  return rgba;
+};
+
+export const trackingPoint = (id: string, initial: Vector2, current: Vector2 = initial): TrackingPoint => ({
+  id, initial, current, velocity: { x: 0, y: 0 }, strain: 0, peakStrain: 0, segment: null, quality: 1, lowQuality: false
+});
+
+// Points moved to apex + factor * (p - apex): every length along the wall scales by the factor
+export const scaleAbout = (points: TrackingPoint[], apex: Vector2, factor: number): TrackingPoint[] => points.map(p => ({
+  ...p, current: { x: apex.x + factor * (p.initial.x - apex.x), y: apex.y + factor * (p.initial.y - apex.y) }
+}));
+
+// Half-ellipse LV cavity, apex at the top and the annulus at the bottom
+export const cavityOutline = (scale = 1, count = 24): Vector2[] => Array.from({ length: count }, (_, i) => {
+  const phi = ((2 * i) / (count - 1) - 1) * (Math.PI / 2);
+  return { x: 300 + scale * 80 * Math.sin(phi), y: 100 + scale * 240 * (1 - Math.cos(phi)) };
+});
+
+export const emptyView = (): ViewAnalysis => ({ ...createEmptyAnalysis(), calibration: null });
+
+export const frameOutput = (points: TrackingPoint[], gls = 0, segments: { [segment: number]: number } = {}): FrameOutput => ({
+  points, walls: EMPTY_WALLS, gls, midwallGls: null, segments, shortAxis: null, mask: new Uint8ClampedArray(0)
+});
+
+export type DicomElementFixture = [tag: string, vr: string, value: string | number | Uint8Array];
+
+const LONG_VRS = ['OB', 'OW', 'SQ', 'UN', 'UT'];
+
+// One explicit VR little endian element; strings are padded to even length as the standard requires
+const encodeElement = ([tag, vr, value]: DicomElementFixture): Uint8Array => {
+  let bytes: Uint8Array;
+  if (typeof value === 'number') {
+    bytes = new Uint8Array(vr === 'UL' ? 4 : 2);
+    if (vr === 'UL') new DataView(bytes.buffer).setUint32(0, value, true);
+    else new DataView(bytes.buffer).setUint16(0, value, true);
+  } else if (typeof value === 'string') {
+    const padded = value.length % 2 === 1 ? value + (vr === 'UI' ? '\0' : ' ') : value;
+    bytes = Uint8Array.from(padded, c => c.charCodeAt(0));
+  } else {
+    bytes = value;
+  }
+  const long = LONG_VRS.includes(vr);
+  const out = new Uint8Array((long ? 12 : 8) + bytes.length);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, parseInt(tag.slice(0, 4), 16), true);
+  view.setUint16(2, parseInt(tag.slice(4), 16), true);
+  out[4] = vr.charCodeAt(0);
+  out[5] = vr.charCodeAt(1);
+  if (long) view.setUint32(8, bytes.length, true);
+  else view.setUint16(6, bytes.length, true);
+  out.set(bytes, long ? 12 : 8);
+  return out;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  parts.reduce((offset, p) => {
+    out.set(p, offset);
+    return offset + p.length;
+  }, 0);
+  return out;
+};
+
+// Part 10 file with a single 2x2 8-bit frame, explicit VR little endian, plus the given elements
+export const dicomFile = (elements: DicomElementFixture[], meta: DicomElementFixture[] = []): ArrayBuffer => {
+  const metaBytes = concatBytes([['00020010', 'UI', '1.2.840.10008.1.2.1'] as DicomElementFixture, ...meta].map(encodeElement));
+  const dataset = concatBytes([
+    ...elements,
+    ['00280010', 'US', 2],
+    ['00280011', 'US', 2],
+    ['7FE00010', 'OW', new Uint8Array([0, 64, 128, 255])]
+  ].map(e => encodeElement(e as DicomElementFixture)));
+  const preamble = new Uint8Array(132);
+  preamble.set([0x44, 0x49, 0x43, 0x4d], 128);
+  return concatBytes([preamble, encodeElement(['00020000', 'UL', metaBytes.length]), metaBytes, dataset]).buffer as ArrayBuffer;
+};
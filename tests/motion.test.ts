@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKING_SETTINGS, autoDetectWalls, calculateArea, createDiagnosticMask, enhanceContrast, forwardBackwardScore, matchNCC, matchSAD, trackSpeckle } from '../utils/motion';
+import { HEIGHT, WIDTH, fillRect, grayImage, speckleImage } from './fixtures';
+
+const alphaAt = (mask: Uint8ClampedArray, x: number, y: number) => mask[(y * WIDTH + x) * 4 + 3];
+const anyAlpha = (mask: Uint8ClampedArray) => mask.some((v, i) => i % 4 === 3 && v > 0);
+
+describe('calculateArea', () => {
+  it('measures a square given in any order', () => {
+    expect(calculateArea([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(100);
+  });
+
+  it('measures a right triangle', () => {
+    expect(calculateArea([{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 0, y: 8 }])).toBe(24);
+  });
+
+  it('is zero for fewer than three points', () => {
+    expect(calculateArea([])).toBe(0);
+    expect(calculateArea([{ x: 0, y: 0 }, { x: 5, y: 5 }])).toBe(0);
+  });
+});
+
+describe('enhanceContrast', () => {
+  it('stretches the values to the full range', () => {
+    const data = new Uint8ClampedArray([50, 100, 150]);
+    enhanceContrast(data);
+    expect(Array.from(data)).toEqual([0, 128, 255]);
+  });
+
+  it('flattens a uniform image to black', () => {
+    const data = new Uint8ClampedArray(16).fill(90);
+    enhanceContrast(data);
+    expect(data.every(v => v === 0)).toBe(true);
+  });
+});
+
+describe('createDiagnosticMask', () => {
+  const stepEdge = () => fillRect(grayImage(), { x: 60, y: 0, w: 60, h: HEIGHT }, 200);
+
+  it('shows no edges on a uniform image', () => {
+    expect(anyAlpha(createDiagnosticMask(grayImage(WIDTH, HEIGHT, 120), -20, null))).toBe(false);
+  });
+
+  it('marks a step edge and nothing away from it', () => {
+    const mask = createDiagnosticMask(stepEdge(), -20, null);
+    expect(alphaAt(mask, 60, 50)).toBeGreaterThan(0);
+    expect(alphaAt(mask, 30, 50)).toBe(0);
+    expect(alphaAt(mask, 90, 50)).toBe(0);
+  });
+
+  it('leaves edges outside the ROI out', () => {
+    expect(anyAlpha(createDiagnosticMask(stepEdge(), -20, { x: 5, y: 5, w: 40, h: 40 }))).toBe(false);
+  });
+
+  it('colours edges by strain', () => {
+    const rgb = (mask: Uint8ClampedArray) => Array.from(mask.slice((50 * WIDTH + 60) * 4, (50 * WIDTH + 60) * 4 + 3));
+    expect(rgb(createDiagnosticMask(stepEdge(), -20, null))).toEqual([34, 197, 94]);
+    expect(rgb(createDiagnosticMask(stepEdge(), -5, null))).toEqual([239, 68, 68]);
+  });
+});
+
+describe('autoDetectWalls', () => {
+  const wall = { x: 40, y: 30, w: 40, h: 20 };
+
+  it('places points on bright pixels inside the ROI', () => {
+    const points = autoDetectWalls(fillRect(grayImage(), wall, 220), { x: 4, y: 4, w: 110, h: 90 });
+    expect(points.length).toBeGreaterThan(0);
+    points.forEach(p => {
+      expect(p.initial.x).toBeGreaterThanOrEqual(wall.x);
+      expect(p.initial.x).toBeLessThan(wall.x + wall.w);
+      expect(p.initial.y).toBeGreaterThanOrEqual(wall.y);
+      expect(p.initial.y).toBeLessThan(wall.y + wall.h);
+      expect(p.current).toEqual(p.initial);
+    });
+    expect(new Set(points.map(p => p.id)).size).toBe(points.length);
+  });
+
+  it('finds nothing in a dark ROI', () => {
+    expect(autoDetectWalls(grayImage(), { x: 0, y: 0, w: WIDTH, h: HEIGHT })).toEqual([]);
+  });
+
+  it('finds nothing when the bright tissue lies outside the ROI', () => {
+    expect(autoDetectWalls(fillRect(grayImage(), wall, 220), { x: 85, y: 60, w: 30, h: 30 })).toEqual([]);
+  });
+
+  it('finds nothing in a zero-sized ROI', () => {
+    expect(autoDetectWalls(fillRect(grayImage(), wall, 220), { x: 50, y: 35, w: 0, h: 0 })).toEqual([]);
+  });
+});
+
+describe('block matching', () => {
+  const center = { x: 60, y: 50 };
+  const prev = speckleImage();
+
+  it('recovers a known translation with SAD', () => {
+    const result = matchSAD(prev, speckleImage({ x: 4, y: -6 }), center, 14, 24);
+    expect(result.position).toEqual({ x: 64, y: 44 });
+    expect(result.quality).toBe(1);
+    expect(trackSpeckle(prev, speckleImage({ x: -2, y: 8 }), center)).toEqual({ x: 58, y: 58 });
+  });
+
+  it('scores an unrelated or textureless block below the quality threshold with SAD', () => {
+    const unrelated = matchSAD(prev, speckleImage({ x: 500, y: 300 }), center, 14, 24);
+    expect(unrelated.quality).toBeLessThan(DEFAULT_TRACKING_SETTINGS.minQuality);
+    expect(matchSAD(grayImage(WIDTH, HEIGHT, 90), grayImage(WIDTH, HEIGHT, 90), center).quality).toBe(0);
+  });
+
+  it('recovers an odd translation with NCC', () => {
+    const result = matchNCC(prev, speckleImage({ x: 3, y: -5 }), center, 14, 24);
+    expect(Math.abs(result.position.x - 63)).toBeLessThan(0.25);
+    expect(Math.abs(result.position.y - 45)).toBeLessThan(0.25);
+    expect(result.quality).toBeCloseTo(1, 5);
+  });
+
+  it('recovers a known translation with the NCC pyramid', () => {
+    const result = matchNCC(prev, speckleImage({ x: 6, y: 4 }), center, 14, 24, true);
+    expect(Math.abs(result.position.x - 66)).toBeLessThan(0.25);
+    expect(Math.abs(result.position.y - 54)).toBeLessThan(0.25);
+  });
+
+  it('leaves points too close to the frame edge where they are', () => {
+    const curr = speckleImage({ x: 2, y: 2 });
+    [{ x: 3, y: 50 }, { x: 60, y: 2 }, { x: WIDTH - 4, y: 50 }, { x: 60, y: HEIGHT - 1 }].forEach(point => {
+      expect(matchSAD(prev, curr, point)).toEqual({ position: point, quality: 0 });
+      expect(matchNCC(prev, curr, point)).toEqual({ position: point, quality: 0 });
+    });
+  });
+
+  it('scores forward-backward consistency', () => {
+    const settings = { ...DEFAULT_TRACKING_SETTINGS, searchWindow: 24 };
+    const curr = speckleImage({ x: 4, y: 2 });
+    expect(forwardBackwardScore(prev, curr, center, { x: 64, y: 52 }, settings)).toBe(1);
+    expect(forwardBackwardScore(prev, curr, center, { x: 72, y: 52 }, settings)).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { FrameContext } from '../types';
+import { DEFAULT_TRACKING_SETTINGS } from '../utils/motion';
+import { analyzeFrame, createTrackerState, layoutPoints, measureFrame } from '../utils/pipeline';
+import { benchmarkTracking } from '../utils/benchmark';
+import { createPhantom } from '../utils/phantom';
+import { HEIGHT, WIDTH, grayImage, scaleAbout, speckleImage, toRgba, trackingPoint } from './fixtures';
+
+const context = (overrides: Partial<FrameContext> = {}): FrameContext => ({
+  view: 'a4c', chamber: 'ventricle', roi: { x: 10, y: 10, w: 100, h: 80 }, settings: DEFAULT_TRACKING_SETTINGS, fps: 30, seedPoints: null, ...overrides
+});
+
+describe('analyzeFrame', () => {
+  it('tracks nothing in an empty ROI', () => {
+    const first = analyzeFrame(createTrackerState(), toRgba(grayImage()), WIDTH, HEIGHT, context());
+    expect(first.output.points).toEqual([]);
+    expect(first.output.gls).toBe(0);
+    expect(first.output.segments).toEqual({});
+    expect(first.output.mask.length).toBe(WIDTH * HEIGHT * 4);
+
+    const second = analyzeFrame(first.state, toRgba(grayImage()), WIDTH, HEIGHT, context());
+    expect(second.output.points).toEqual([]);
+    expect(second.output.gls).toBe(0);
+  });
+
+  it('starts from the seed points and follows a translation without strain', () => {
+    const seedPoints = [
+      trackingPoint('a', { x: 40, y: 70 }), trackingPoint('b', { x: 50, y: 40 }), trackingPoint('c', { x: 60, y: 30 }),
+      trackingPoint('d', { x: 70, y: 40 }), trackingPoint('e', { x: 80, y: 70 })
+    ];
+    const ctx = context({ seedPoints });
+    const first = analyzeFrame(createTrackerState(), toRgba(speckleImage()), WIDTH, HEIGHT, ctx);
+    expect(first.output.points.map(p => p.current)).toEqual(seedPoints.map(p => p.initial));
+    expect(first.output.gls).toBe(0);
+
+    const second = analyzeFrame(first.state, toRgba(speckleImage({ x: 2, y: -4 })), WIDTH, HEIGHT, ctx);
+    second.output.points.forEach((p, i) => {
+      expect(p.current).toEqual({ x: seedPoints[i].initial.x + 2, y: seedPoints[i].initial.y - 4 });
+      expect(p.velocity).toEqual({ x: 60, y: -120 });
+    });
+    expect(second.output.gls).toBeCloseTo(0, 10);
+  });
+});
+
+describe('measureFrame', () => {
+  const phantom = createPhantom();
+  const apex = { x: phantom.settings.width / 2, y: phantom.settings.height * 0.2 };
+  const { points, walls } = layoutPoints('a4c', phantom.seedPoints, phantom.roi);
+
+  it('reads a uniform shortening as that strain globally and per segment', () => {
+    const measured = measureFrame('a4c', scaleAbout(points, apex, 0.85), walls, DEFAULT_TRACKING_SETTINGS);
+    expect(measured.strain).toBeCloseTo(-15, 6);
+    expect(measured.midwall).toBeCloseTo(-15, 6);
+    expect(Object.keys(measured.segments).length).toBeGreaterThan(0);
+    Object.values(measured.segments).forEach(strain => expect(strain).toBeCloseTo(-15, 6));
+  });
+
+  it('leaves low-quality points out when asked to', () => {
+    const flagged = scaleAbout(points, apex, 0.85).map((p, i) => (i % 2 === 0 ? { ...p, current: p.initial, lowQuality: true } : p));
+    const measured = measureFrame('a4c', flagged, walls, { ...DEFAULT_TRACKING_SETTINGS, excludeLowQuality: true });
+    expect(measured.strain).toBeCloseTo(-15, 6);
+  });
+});
+
+describe('phantom tracking', () => {
+  it('recovers the prescribed GLS with NCC', () => {
+    const phantom = createPhantom();
+    const result = benchmarkTracking(phantom, 'NCC', { ...DEFAULT_TRACKING_SETTINGS, algorithm: 'ncc' });
+    expect(result.meanError).toBeLessThan(1.5);
+    expect(Math.abs(result.glsTracked - result.glsTruth)).toBeLessThan(1);
+    expect(result.glsTruth).toBeLessThan(-15);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, DicomIdentity, ViewAnalysis, ViewId } from '../types';
+import { DEFAULT_TRACKING_SETTINGS } from '../utils/motion';
+import { DicomJsonDataset, DicomSrError, buildDicomSr, dicomSrProblem } from '../utils/report';
+import { createViewRecord } from '../utils/views';
+import { emptyView } from './fixtures';
+
+const source = (overrides: Partial<DicomIdentity> = {}): DicomIdentity => ({
+  patientName: 'Doe^Jane',
+  patientId: 'MRN-0042',
+  patientBirthDate: '19700101',
+  patientSex: 'F',
+  studyInstanceUid: '1.2.3.4',
+  studyDate: '20260314',
+  studyTime: '101500',
+  studyId: 'ECHO1',
+  accessionNumber: 'ACC123',
+  referringPhysician: null,
+  seriesInstanceUid: '1.2.3.4.5',
+  sopClassUid: '1.2.840.10008.5.1.4.1.1.3.1',
+  sopInstanceUid: '1.2.3.4.5.1',
+  ...overrides
+});
+
+// Items of a sequence attribute, failing unless the tag holds a sequence
+const items = (dataset: DicomJsonDataset, tag: string): DicomJsonDataset[] => {
+  expect(dataset[tag]?.vr).toBe('SQ');
+  return (dataset[tag].Value ?? []) as DicomJsonDataset[];
+};
+
+const trackedView = (): ViewAnalysis => ({ ...emptyView(), gls: -18, history: [{ time: 0, strain: 0, area: 0, contour: null, points: [] }] });
+
+// Result with the 4- and 2-chamber views processed
+const result = (sources: { [key in ViewId]?: DicomIdentity }): AnalysisResult => ({
+  biplaneEf: 55,
+  volumes: null,
+  beatVolumes: [],
+  views: createViewRecord(v => (v === 'a4c' || v === 'a2c' ? trackedView() : emptyView())),
+  gls: -18,
+  strainRate: null,
+  shortAxis: null,
+  rightVentricle: null,
+  leftAtrium: null,
+  timing: null,
+  work: null,
+  hr: 60,
+  hrEstimate: null,
+  hrManual: false,
+  tracking: DEFAULT_TRACKING_SETTINGS,
+  timestamp: 0,
+  sources,
+  segments: { detailed: Array(17).fill(null), quality: Array(17).fill(null) }
+});
+
+describe('DICOM SR identity', () => {
+  const a2c = source({ sopInstanceUid: '1.2.3.4.5.2' });
+
+  it('files the SR into the study of the source clips with them as evidence', () => {
+    const sr = buildDicomSr(result({ a4c: source(), a2c }));
+    expect(sr['00100010'].Value).toEqual([{ Alphabetic: 'Doe^Jane' }]);
+    expect(sr['00100020'].Value).toEqual(['MRN-0042']);
+    expect(sr['00100030'].Value).toEqual(['19700101']);
+    expect(sr['0020000D'].Value).toEqual(['1.2.3.4']);
+    expect(sr['00080050'].Value).toEqual(['ACC123']);
+    expect(sr['00080020'].Value).toEqual(['20260314']);
+    expect(sr['00080090']).toEqual({ vr: 'PN' });
+    expect(sr['0020000E'].Value![0]).not.toBe('1.2.3.4.5');
+
+    const [evidence] = items(sr, '0040A375');
+    expect(evidence['0020000D'].Value).toEqual(['1.2.3.4']);
+    const [series] = items(evidence, '00081115');
+    expect(series['0020000E'].Value).toEqual(['1.2.3.4.5']);
+    expect(items(series, '00081199').map(i => i['00081155'].Value)).toEqual([['1.2.3.4.5.1'], ['1.2.3.4.5.2']]);
+  });
+
+  it('refuses views without a DICOM source', () => {
+    const analysis = result({ a4c: source() });
+    expect(dicomSrProblem(analysis)).toMatch(/not analysed from a DICOM clip/);
+    expect(() => buildDicomSr(analysis)).toThrow(DicomSrError);
+    expect(dicomSrProblem(result({}))).not.toBeNull();
+  });
+
+  it('refuses clips from different studies or patients', () => {
+    expect(dicomSrProblem(result({ a4c: source(), a2c: source({ studyInstanceUid: '1.2.3.5' }) }))).toMatch(/different studies/);
+    expect(dicomSrProblem(result({ a4c: source(), a2c: source({ patientId: 'MRN-0043' }) }))).toMatch(/different patients/);
+    expect(dicomSrProblem(result({ a4c: source({ patientId: null }), a2c: source({ patientId: null }) }))).toMatch(/no Patient ID/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { StudySession } from '../types';
+import { StudyFileError, exportStudyFile, importStudyFile } from '../services/studyStore';
+import { DEFAULT_TRACKING_SETTINGS } from '../utils/motion';
+import { emptyView } from './fixtures';
+
+const session = (): StudySession => {
+  const { mask, maskFrames, ...analysis } = emptyView();
+  return {
+    id: 'study-1',
+    name: 'Echo',
+    createdAt: 1,
+    updatedAt: 2,
+    views: {
+      a4c: {
+        clip: { kind: 'video', name: 'a4c.webm', blob: new Blob([new Uint8Array([1, 2, 3])], { type: 'video/webm' }) },
+        roi: { x: 1, y: 2, w: 3, h: 4 },
+        seedPoints: null,
+        isProcessed: false,
+        analysis
+      }
+    },
+    result: null,
+    hrOverride: null,
+    tracking: DEFAULT_TRACKING_SETTINGS
+  };
+};
+
+// Study file with a hand-written manifest and no clip bytes
+const studyFile = (manifest: unknown): Blob => {
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, json.length, true);
+  return new Blob(['CSTUDY01', length, json]);
+};
+
+const manifestOf = async (file: Blob) => {
+  const length = new DataView(await file.slice(8, 12).arrayBuffer()).getUint32(0, true);
+  return JSON.parse(await file.slice(12, 12 + length).text());
+};
+
+describe('study files', () => {
+  it('round-trips a session with its clip under a fresh id', async () => {
+    const imported = await importStudyFile(exportStudyFile(session()));
+    expect(imported.id).not.toBe('study-1');
+    expect(imported.name).toBe('Echo');
+    expect(imported.views.a4c!.analysis.minArea).toBe(Infinity);
+    expect(imported.views.a4c!.roi).toEqual({ x: 1, y: 2, w: 3, h: 4 });
+    expect(Array.from(new Uint8Array(await imported.views.a4c!.clip!.blob.arrayBuffer()))).toEqual([1, 2, 3]);
+  });
+
+  it('rejects files that are not study files', async () => {
+    await expect(importStudyFile(new Blob(['hello world']))).rejects.toThrow(StudyFileError);
+  });
+
+  it('rejects manifests with a missing or malformed structure', async () => {
+    const valid = await manifestOf(exportStudyFile(session()));
+    const broken = [
+      null,
+      { ...valid, version: 2 },
+      { ...valid, views: undefined },
+      { ...valid, views: { a4c: { ...valid.views.a4c, analysis: undefined } } },
+      { ...valid, views: { a4c: { ...valid.views.a4c, analysis: { ...valid.views.a4c.analysis, history: 'none' } } } },
+      { ...valid, views: { a4c: { ...valid.views.a4c, clip: { ...valid.views.a4c.clip, offset: -1 } } } },
+      { ...valid, result: { biplaneEf: 50 } }
+    ];
+    for (const manifest of broken) {
+      await expect(importStudyFile(studyFile(manifest))).rejects.toThrow(StudyFileError);
+    }
+  });
+
+  it('accepts manifests written before they carried a version', async () => {
+    const { version, ...manifest } = await manifestOf(exportStudyFile(session()));
+    const imported = await importStudyFile(studyFile({ ...manifest, views: { a4c: { ...manifest.views.a4c, clip: null } } }));
+    expect(imported.views.a4c!.clip).toBeNull();
+  });
+});
@@ -4,31 +4,422 @@ export interface Vector2 {
   y: number;
 }
 
+export type ApicalView = 'a4c' | 'a2c' | 'a3c';
+export type ShortAxisView = 'sax-base' | 'sax-mid' | 'sax-apex';
+export type RightVentricleView = 'rv4c';
+export type ViewId = ApicalView | ShortAxisView | RightVentricleView;
+export type ViewKind = 'apical' | 'short-axis' | 'right-ventricle';
+export type ShortAxisLevel = 'basal' | 'mid' | 'apical';
+export type Chamber = 'ventricle' | 'atrium';
+
+export interface GrayImage {
+  data: Uint8ClampedArray; // one byte per pixel, row-major
+  width: number;
+  height: number;
+}
+
+export interface ROI {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface LongAxis {
+  apex: Vector2;
+  base: Vector2;
+}
+
+export interface Calibration {
+  start: Vector2;
+  end: Vector2;
+  lengthCm: number;
+  mmPerPixel: number;
+  source: 'manual' | 'dicom';
+}
+
 export interface TrackingPoint {
   id: string;
   initial: Vector2;
   current: Vector2;
   velocity: Vector2;
   strain: number;
+  peakStrain: number;
+  segment: number | null; // AHA index 0-16, null when outside the myocardium model
+  quality: number; // block-match score of the latest frame, 0-1
+  lowQuality: boolean; // set once the score drops below TrackingSettings.minQuality
+  radialStrain?: number; // short-axis views only, % wall thickening of the point's bin
+  rotation?: number; // short-axis views only, degrees about the fitted centre
+}
+
+export type TrackingAlgorithm = 'sad' | 'ncc';
+
+export interface TrackingSettings {
+  algorithm: TrackingAlgorithm;
+  blockSize: number;
+  searchWindow: number;
+  pyramid: boolean; // coarse-to-fine search, NCC only
+  minQuality: number;
+  excludeLowQuality: boolean; // drop flagged points from the strain average
+  forwardBackward: boolean; // track each match back to the previous frame; the round-trip error lowers its quality
+  driftCorrection: boolean; // linear return-to-origin correction across each detected cycle
+  spatialSmoothing: number; // passes of a [1 2 1] filter along the wall traces, 0 = off
+  temporalWindow: number; // Savitzky–Golay window in frames (odd), 0 = off
+}
+
+export interface TrackResult {
+  position: Vector2;
+  quality: number;
+}
+
+export interface Contour {
+  points: Vector2[]; // ordered endocardial polygon
+  axis: LongAxis;
+  length: number;
+  area: number;
+}
+
+export interface WallPolylines {
+  endocardium: string[]; // TrackingPoint ids, basal left -> apex -> basal right
+  midwall: string[];
+}
+
+export interface StrainSample {
+  time: number;
+  strain: number;
+}
+
+export type CurveType = 'strain' | 'strainRate' | 'velocity' | 'displacement';
+
+export interface CurveSample {
+  time: number;
+  value: number;
+}
+
+export interface StrainRatePeaks {
+  srs: number; // 1/s, peak systolic (most negative)
+  sre: number | null; // early diastolic
+  sra: number | null; // late diastolic (atrial)
+}
+
+// Alpha of a frame's diagnostic mask, subsampled by `scale`
+export interface MaskFrame {
+  alpha: Uint8ClampedArray;
+  width: number;
+  height: number;
+  scale: number;
+}
+
+// Where one tracked point sat in a given frame
+export interface TrackedPosition {
+  id: string;
+  x: number;
+  y: number;
+  quality: number;
+}
+
+export interface FrameSample extends StrainSample {
+  area: number;
+  contour: Contour | null;
+  points: TrackedPosition[];
+  radial?: number; // short-axis views: global radial strain, %
+  rotation?: number; // short-axis views: mean rotation, degrees
+}
+
+export interface CardiacBeat {
+  edFrame: number; // indices into ViewAnalysis.history
+  esFrame: number;
+  endFrame: number;
+  peakStrainFrame: number;
+  edTime: number;
+  esTime: number;
+  endTime: number;
+  complete: boolean; // ends on the next end-diastole rather than the end of the clip
+  gls: number; // referenced to this beat's end-diastole
+  edContour: Contour | null;
+  esContour: Contour | null;
+  ef: number | null; // single-plane
+}
+
+export interface PointQuality {
+  id: string;
+  segment: number | null;
+  drift: number; // px between the start and end of a cycle
+  correlation: number; // mean match quality, 0-1
+  smoothness: number; // 0-1, agreement with the motion of neighbouring points
+  leftRoi: boolean;
+  crossed: boolean; // overtook a neighbour along the wall trace
+}
+
+export interface SegmentQuality {
+  segment: number;
+  drift: number;
+  correlation: number;
+  smoothness: number;
+  reliable: boolean;
+  reasons: string[]; // why it is unreliable
+}
+
+export interface TrackingQuality {
+  points: PointQuality[];
+  segments: { [segment: number]: SegmentQuality };
+  excluded: number[]; // segments left out of GLS
+  note: string | null;
+}
+
+// Left atrium tracked from its own ROI in an apical clip, frame for frame with the LV
+export interface AtrialAnalysis {
+  points: TrackingPoint[];
+  walls: WallPolylines; // mitral annulus -> roof -> mitral annulus
+  history: FrameSample[]; // strain against the first frame; indices match the LV history
 }
 
 export interface ViewAnalysis {
-  gls: number;
+  gls: number; // peak longitudinal strain; circumferential on short-axis views
+  midwallGls: number | null;
   ef: number;
   maxArea: number;
   minArea: number;
-  history: { time: number; strain: number }[];
+  edContour: Contour | null;
+  esContour: Contour | null;
+  peakDisplacement: number; // px
+  peakVelocity: number; // px/s
+  calibration: Calibration | null;
+  history: FrameSample[];
+  startFrame: number; // clip frame the history starts at
+  beats: CardiacBeat[];
+  segmentCurves: { [segment: number]: StrainSample[] };
+  walls: WallPolylines;
   points: TrackingPoint[];
   mask: ImageData | null;
+  maskFrames: MaskFrame[]; // one per history sample, for review
+  quality: TrackingQuality | null;
+  atrium: AtrialAnalysis | null;
+  strainRate: StrainRatePeaks | null; // of the global curve, averaged over the beats
+}
+
+export interface VolumeResult {
+  method: 'biplane' | 'single-plane';
+  unit: 'mL' | 'px³';
+  edv: number;
+  esv: number;
+  sv: number;
+  ef: number;
+}
+
+export interface HeartRateEstimate {
+  bpm: number;
+  confidence: number; // 0-1
+  method: 'autocorrelation' | 'peak-spacing' | 'dicom';
+  rrIntervals: number[]; // s
+  rrVariability: number | null; // SD of R-R intervals, ms
+}
+
+export interface SegmentStatus {
+  reliable: boolean;
+  reasons: string[];
+}
+
+export interface ShortAxisResult {
+  levels: { view: ShortAxisView, level: ShortAxisLevel, gcs: number, grs: number, rotation: number }[];
+  twist: number | null; // degrees, apical minus basal rotation
+  torsion: number | null; // degrees per cm of end-diastolic LV length
+}
+
+export interface RightVentricleResult {
+  fourChamberStrain: number; // peak longitudinal strain of free wall and septum, %
+  freeWallStrain: number;
+  septalStrain: number;
+  eda: number; // end-diastolic RV area
+  esa: number;
+  areaUnit: 'cm²' | 'px²';
+  fac: number | null; // fractional area change, %
+  tapse: number | null; // tricuspid annular plane systolic excursion
+  tapseUnit: 'mm' | 'px';
+}
+
+export interface AtrialStrain {
+  reservoir: number; // %, referenced to LV end-diastole
+  conduit: number;
+  contraction: number | null; // null without a distinct atrial contraction
+}
+
+export interface LeftAtrialResult extends AtrialStrain {
+  views: ({ view: ApicalView, cycles: number } & AtrialStrain)[];
+  volumes: { method: VolumeResult['method'], unit: VolumeResult['unit'], max: number, min: number, emptyingFraction: number } | null;
+}
+
+export interface MechanicalDispersion {
+  timeToPeak: (number | null)[]; // ms from end-diastole to peak segmental strain, 17 AHA segments
+  postSystolicIndex: (number | null)[]; // % of peak strain reached after end-systole
+  dispersion: number | null; // SD of time-to-peak over the reliable segments, ms
+  endSystole: number | null; // mean end-diastole to end-systole interval, ms
+}
+
+export type BullsEyeMode = 'strain' | 'timeToPeak' | 'workEfficiency';
+
+export interface BloodPressure {
+  systolic: number; // brachial cuff, mmHg; stands in for peak LV pressure
+  diastolic: number;
+}
+
+export type ValveEvent = 'mvc' | 'avo' | 'avc' | 'mvo';
+export type ValveTimings = { [key in ValveEvent]: number }; // ms from end-diastole
+
+export interface PressureStrainPoint {
+  strain: number; // %, against end-diastole
+  pressure: number; // mmHg
+}
+
+export interface MyocardialWork {
+  gwi: number; // global work index, mmHg%
+  gcw: number; // global constructive work
+  gww: number; // global wasted work
+  gwe: number; // global work efficiency, %
+  segments: {
+    workIndex: (number | null)[]; // 17 AHA segments
+    constructive: (number | null)[];
+    wasted: (number | null)[];
+    efficiency: (number | null)[];
+  };
+  bloodPressure: BloodPressure;
+  valves: ValveTimings;
+  valvesManual: boolean; // at least one event marked on a clip
+  pressure: CurveSample[]; // estimated LV pressure over one cycle, s from end-diastole
+  loops: { global: PressureStrainPoint[], segments: { [segment: number]: PressureStrainPoint[] } };
+}
+
+// Patient, study and instance identification of an imported DICOM clip, null where the tag is absent
+export interface DicomIdentity {
+  patientName: string | null; // PN, components separated by ^
+  patientId: string | null;
+  patientBirthDate: string | null; // DA, YYYYMMDD
+  patientSex: string | null;
+  studyInstanceUid: string | null;
+  studyDate: string | null;
+  studyTime: string | null;
+  studyId: string | null;
+  accessionNumber: string | null;
+  referringPhysician: string | null;
+  seriesInstanceUid: string | null;
+  sopClassUid: string | null;
+  sopInstanceUid: string | null;
 }
 
 export interface AnalysisResult {
   biplaneEf: number;
-  a4c: ViewAnalysis;
-  a2c: ViewAnalysis;
-  hr: number;
+  volumes: VolumeResult | null; // averaged over beats
+  beatVolumes: VolumeResult[];
+  views: { [key in ViewId]: ViewAnalysis };
+  gls: number | null; // mean GLS of the processed apical views
+  strainRate: StrainRatePeaks | null; // mean of the apical views
+  shortAxis: ShortAxisResult | null;
+  rightVentricle: RightVentricleResult | null;
+  leftAtrium: LeftAtrialResult | null;
+  timing: MechanicalDispersion | null; // apical views
+  work: MyocardialWork | null; // needs a cuff blood pressure
+  hr: number; // bpm, 0 when unknown
+  hrEstimate: HeartRateEstimate | null;
+  hrManual: boolean;
+  tracking: TrackingSettings;
   timestamp: number;
+  sources: { [key in ViewId]?: DicomIdentity }; // DICOM clips of the processed views, the SR's patient, study and evidence
   segments: {
-    detailed: number[];
+    detailed: (number | null)[]; // 17 AHA segments, null = not assessed
+    quality: (SegmentStatus | null)[]; // tracking QC per segment, null = not assessed
   };
 }
+
+// Synthetic apical LV cine with a prescribed deformation, for checking the tracking engine
+export interface PhantomSettings {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // s, one cardiac cycle from end-diastole to end-diastole
+  gls: number; // prescribed peak longitudinal strain of normal segments, %
+  hypokinesis: { [segment: number]: number }; // AHA segment -> share of the normal strain, 0 = akinetic
+  noise: number; // SD of independent gray-level noise in every frame
+  gainChange: number; // relative gain change from the first to the last frame
+  seed: number;
+}
+
+export interface BenchmarkResult {
+  label: string;
+  settings: TrackingSettings;
+  meanError: number; // px, tracked against true position over all points and frames
+  maxError: number;
+  finalError: number; // px, mean over the points in the last frame (drift)
+  glsTruth: number; // peak GLS of the true positions through the same wall trace, %
+  glsTracked: number;
+  glsBias: number; // mean tracked minus true GLS over the frames
+  segmentError: number; // mean absolute error of peak segmental strain
+  msPerFrame: number;
+}
+
+export interface FrameContext {
+  view: ViewId;
+  chamber: Chamber;
+  roi: ROI | null;
+  settings: TrackingSettings;
+  fps: number;
+  seedPoints: TrackingPoint[] | null; // manually edited first-frame points replace auto-detection
+}
+
+export interface FrameOutput {
+  points: TrackingPoint[];
+  walls: WallPolylines;
+  gls: number; // longitudinal strain (apical) or circumferential strain (short axis)
+  midwallGls: number | null;
+  segments: { [segment: number]: number };
+  shortAxis: { radial: number, rotation: number } | null;
+  mask: Uint8ClampedArray; // RGBA, same size as the frame
+}
+
+export type MotionWorkerRequest =
+  | { type: 'start'; jobId: string; context: FrameContext }
+  | { type: 'frame'; jobId: string; frameIndex: number; width: number; height: number; buffer: ArrayBuffer }
+  | { type: 'cancel'; jobId: string }
+  | { type: 'finish'; jobId: string };
+
+export type MotionWorkerResponse =
+  | { type: 'frame'; jobId: string; frameIndex: number; output: FrameOutput }
+  | { type: 'cancelled'; jobId: string }
+  | { type: 'error'; jobId: string; frameIndex: number | null; message: string };
+
+// Original clip bytes, kept so a saved study can be reopened without the source file
+export interface StoredClip {
+  kind: 'video' | 'dicom';
+  name: string;
+  blob: Blob;
+}
+
+export interface SessionView {
+  clip: StoredClip | null;
+  roi: ROI | null;
+  laRoi?: ROI | null; // studies saved before LA tracking lack it
+  seedPoints: TrackingPoint[] | null;
+  seedFrame?: number; // studies saved before ED-frame seeding lack it
+  isProcessed: boolean;
+  analysis: Omit<ViewAnalysis, 'mask' | 'maskFrames'>;
+}
+
+export interface StudySession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  views: { [key in ViewId]?: SessionView }; // studies saved before a view existed lack it
+  result: Omit<AnalysisResult, 'views'> | null; // views are restored from `views`
+  hrOverride: number | null;
+  bloodPressure?: BloodPressure | null;
+  valveOverride?: Partial<ValveTimings>;
+  tracking: TrackingSettings;
+}
+
+export interface StudySummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  ef: number | null;
+  views: ViewId[];
+}
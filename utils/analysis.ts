@@ -0,0 +1,79 @@
+import { FrameOutput, ROI, TrackingSettings, ViewAnalysis, ViewId } from '../types';
+import { calculateArea } from './motion';
+import { buildContour, computeViewVolumes } from './volumes';
+import { analyzeBeats, averageBeats } from './cycles';
+import { EMPTY_WALLS } from './strain';
+import { processAtrium } from './atrium';
+import { strainRatePeaks } from './kinematics';
+import { assessTracking, excludeUnreliableSegments } from './quality';
+import { processTrajectories } from './trajectory';
+
+// Calibration is left out so it survives a re-run of the same clip; loading a different clip resets it
+export const createEmptyAnalysis = (): Omit<ViewAnalysis, 'calibration'> => ({
+  gls: 0, midwallGls: null, ef: 0, maxArea: 0, minArea: Infinity, edContour: null, esContour: null,
+  peakDisplacement: 0, peakVelocity: 0, history: [], startFrame: 0, beats: [], segmentCurves: {}, walls: EMPTY_WALLS, points: [], mask: null, maskFrames: [], quality: null, atrium: null, strainRate: null
+});
+
+// Folds one frame of tracking output into the view: the history sample, segment curves, running
+// peaks and the largest and smallest contours. The overlay mask is left to the caller.
+export const accumulateFrame = <T extends ViewAnalysis>(view: T, output: FrameOutput, time: number): T => {
+  const { points, walls, gls } = output;
+
+  const segmentCurves = { ...view.segmentCurves };
+  Object.entries(output.segments).forEach(([seg, strain]) => {
+    segmentCurves[Number(seg)] = [...(segmentCurves[Number(seg)] || []), { time, strain }];
+  });
+
+  const positions = points.map(p => p.current);
+  const area = calculateArea(positions);
+  const contour = buildContour(positions);
+  const count = points.length || 1;
+  const displacement = points.reduce((acc, p) => acc + Math.hypot(p.current.x - p.initial.x, p.current.y - p.initial.y), 0) / count;
+  const speed = points.reduce((acc, p) => acc + Math.hypot(p.velocity.x, p.velocity.y), 0) / count;
+  const isEd = area > view.maxArea;
+  const isEs = area > 0 && area < view.minArea;
+
+  return {
+    ...view,
+    points,
+    walls,
+    gls: Math.min(view.gls, gls),
+    midwallGls: output.midwallGls !== null ? Math.min(view.midwallGls ?? 0, output.midwallGls) : null,
+    segmentCurves,
+    maxArea: Math.max(view.maxArea, area),
+    minArea: area > 0 ? Math.min(view.minArea, area) : view.minArea,
+    edContour: isEd ? contour : view.edContour,
+    esContour: isEs ? contour : view.esContour,
+    peakDisplacement: Math.max(view.peakDisplacement, displacement),
+    peakVelocity: Math.max(view.peakVelocity, speed),
+    history: [...view.history, {
+      time, strain: gls, area, contour,
+      points: points.map(p => ({ id: p.id, x: p.current.x, y: p.current.y, quality: p.quality })),
+      radial: output.shortAxis?.radial,
+      rotation: output.shortAxis?.rotation
+    }]
+  };
+};
+
+// Tracking QC scores the raw trajectories; drift correction and smoothing follow, then
+// segments that failed QC are left out of the GLS curve the beats use. GLS and EF are the
+// beat averages, or the clip peak and ED/ES contours when no beat was found.
+export const finalizeView = <T extends ViewAnalysis>(view: T, viewId: ViewId, roi: ROI | null, settings: TrackingSettings): T => {
+  const rawBeats = analyzeBeats(view);
+  const quality = assessTracking(view, rawBeats, roi, settings);
+  const processed = { ...view, ...processTrajectories(view, viewId, rawBeats, settings) };
+  const history = excludeUnreliableSegments(processed, quality, settings);
+  const beats = analyzeBeats({ ...processed, history });
+  const averaged = averageBeats(beats);
+  const peakGls = quality.excluded.length > 0 ? Math.min(0, ...history.map(s => s.strain)) : processed.gls;
+  return {
+    ...processed,
+    history,
+    quality,
+    beats,
+    atrium: processed.atrium ? processAtrium(processed.atrium, rawBeats, settings) : null,
+    strainRate: strainRatePeaks(history, beats),
+    gls: averaged ? averaged.gls : peakGls,
+    ef: averaged ? averaged.ef : computeViewVolumes(processed)?.ef ?? 0
+  };
+};
@@ -0,0 +1,99 @@
+import { AtrialAnalysis, AtrialStrain, ApicalView, CardiacBeat, LeftAtrialResult, TrackingSettings, ViewAnalysis, Vector2 } from '../types';
+import { calculateArea } from './motion';
+import { computeContourStrain } from './strain';
+import { buildContour, computeVolumes } from './volumes';
+import { cycleBounds, rereferenceStrain } from './cycles';
+import { framePoints, hasTrajectoryProcessing, processPositions } from './trajectory';
+
+const MIN_CONTRACTION_KNEE = 0.5; // % strain above the chord that marks the onset of atrial contraction
+
+// Area and contour of one atrial frame; the annulus is at the top of the atrium
+export const measureAtrialFrame = (positions: Vector2[]) => ({
+  area: calculateArea(positions),
+  contour: buildContour(positions, 'top')
+});
+
+// The LV post-processing applied to the atrial positions over the LV cycles, then strain, area
+// and contour recomputed from the processed positions
+export const processAtrium = (atrium: AtrialAnalysis, beats: CardiacBeat[], settings: TrackingSettings): AtrialAnalysis => {
+  if (!hasTrajectoryProcessing(settings) || atrium.history.length < 2) return atrium;
+  const lowQuality = new Set<string>();
+  const history = processPositions(atrium.history, atrium, beats, settings).map(sample => ({
+    ...sample,
+    strain: computeContourStrain(framePoints(atrium.points, sample, lowQuality, settings), atrium.walls.endocardium).global,
+    ...measureAtrialFrame(sample.points)
+  }));
+  const last = new Map(history[history.length - 1].points.map(p => [p.id, p]));
+  return {
+    ...atrium,
+    history,
+    points: atrium.points.map(p => (last.has(p.id) ? { ...p, current: { x: last.get(p.id)!.x, y: last.get(p.id)!.y } } : p))
+  };
+};
+
+// Phases of one cycle from a strain curve that starts at LV end-diastole (zero) and ends at the
+// next. Atrial contraction starts at the frame rising furthest above the chord from the reservoir
+// peak to the end of the cycle: the knee between diastasis and the late decline. Without a knee
+// (atrial fibrillation) the whole descent is conduit.
+export const atrialPhases = (strain: number[]): AtrialStrain => {
+  const last = strain.length - 1;
+  const peak = strain.reduce((best, value, i) => (value > strain[best] ? i : best), 0);
+  let onset: number | null = null;
+  let knee = MIN_CONTRACTION_KNEE;
+  for (let i = peak + 1; i < last; i++) {
+    const chord = strain[peak] + ((strain[last] - strain[peak]) * (i - peak)) / (last - peak);
+    if (strain[i] - chord > knee) {
+      knee = strain[i] - chord;
+      onset = i;
+    }
+  }
+  return {
+    reservoir: strain[peak] - strain[0],
+    conduit: (onset !== null ? strain[onset] : strain[last]) - strain[peak],
+    contraction: onset !== null ? strain[last] - strain[onset] : null
+  };
+};
+
+const averageStrain = (items: AtrialStrain[]): AtrialStrain => {
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const contractions = items.map(i => i.contraction).filter((c): c is number => c !== null);
+  return {
+    reservoir: mean(items.map(i => i.reservoir)),
+    conduit: mean(items.map(i => i.conduit)),
+    contraction: contractions.length > 0 ? mean(contractions) : null
+  };
+};
+
+// The largest and smallest atrial contour take the places of the LV end-diastolic and
+// end-systolic contour, so LA volumes use the same disk summation as the LV
+const atrialExtremes = (view: ViewAnalysis): ViewAnalysis | null => {
+  const samples = (view.atrium?.history ?? []).filter(s => s.contour && s.area > 0);
+  if (samples.length === 0) return null;
+  const largest = samples.reduce((a, b) => (b.area > a.area ? b : a));
+  const smallest = samples.reduce((a, b) => (b.area < a.area ? b : a));
+  return { ...view, edContour: largest.contour, esContour: smallest.contour };
+};
+
+// LA strain of every LV cycle re-referenced to its end-diastole, averaged per view and across
+// views; LA maximum and minimum volume biplane when both the A4C and A2C carry an atrium
+export const summarizeLeftAtrium = (views: { view: ApicalView, analysis: ViewAnalysis }[]): LeftAtrialResult | null => {
+  const tracked = views.filter(v => v.analysis.atrium && v.analysis.atrium.history.length >= 3);
+  const perView = tracked.map(({ view, analysis }) => {
+    const curve = analysis.atrium!.history.map(s => s.strain);
+    const cycles = cycleBounds(analysis.history, analysis.beats)
+      .filter(([from, to]) => to - from >= 2 && to < curve.length)
+      .map(([from, to]) => atrialPhases(curve.slice(from, to + 1).map(s => rereferenceStrain(s, curve[from]))));
+    return cycles.length > 0 ? { view, cycles: cycles.length, ...averageStrain(cycles) } : null;
+  }).filter((v): v is LeftAtrialResult['views'][number] => v !== null);
+  if (perView.length === 0) return null;
+
+  const find = (id: ApicalView) => tracked.find(v => v.view === id)?.analysis;
+  const a4c = find('a4c');
+  const a2c = find('a2c');
+  const volumes = computeVolumes(a4c ? atrialExtremes(a4c) : null, a2c ? atrialExtremes(a2c) : null);
+  return {
+    ...averageStrain(perView),
+    views: perView,
+    volumes: volumes ? { method: volumes.method, unit: volumes.unit, max: volumes.edv, min: volumes.esv, emptyingFraction: volumes.ef } : null
+  };
+};
@@ -0,0 +1,117 @@
+import { BenchmarkResult, CardiacBeat, FrameContext, FrameSample, TrackingPoint, TrackingSettings, Vector2 } from '../types';
+import { DEFAULT_TRACKING_SETTINGS } from './motion';
+import { analyzeFrame, createTrackerState, measureFrame } from './pipeline';
+import { hasTrajectoryProcessing, processPositions } from './trajectory';
+import { Phantom } from './phantom';
+
+export const BENCHMARK_CONFIGS: { label: string, settings: TrackingSettings }[] = [
+  { label: 'SAD', settings: DEFAULT_TRACKING_SETTINGS },
+  { label: 'NCC', settings: { ...DEFAULT_TRACKING_SETTINGS, algorithm: 'ncc' } },
+  { label: 'NCC pyramid', settings: { ...DEFAULT_TRACKING_SETTINGS, algorithm: 'ncc', pyramid: true } },
+  {
+    label: 'NCC + post-processing',
+    settings: { ...DEFAULT_TRACKING_SETTINGS, algorithm: 'ncc', forwardBackward: true, driftCorrection: true, spatialSmoothing: 1, temporalWindow: 5 }
+  }
+];
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// The phantom clip is exactly one beat, end-diastole to end-diastole
+const phantomBeat = (phantom: Phantom): CardiacBeat => ({
+  edFrame: 0,
+  esFrame: phantom.esFrame,
+  endFrame: phantom.frameCount - 1,
+  peakStrainFrame: phantom.esFrame,
+  edTime: 0,
+  esTime: phantom.time(phantom.esFrame),
+  endTime: phantom.time(phantom.frameCount - 1),
+  complete: true,
+  gls: 0,
+  edContour: null,
+  esContour: null,
+  ef: null
+});
+
+// Runs the frame pipeline over the phantom from its seed points, applies the trajectory
+// post-processing of the settings and measures positions and strain against ground truth.
+// Both strain curves come from the same wall traces, so the bias is the tracking error alone.
+export const benchmarkTracking = (phantom: Phantom, label: string, settings: TrackingSettings): BenchmarkResult => {
+  const { width, height, fps } = phantom.settings;
+  const context: FrameContext = { view: phantom.view, chamber: 'ventricle', roi: phantom.roi, settings, fps, seedPoints: phantom.seedPoints };
+  let state = createTrackerState();
+  let elapsed = 0;
+  const history: FrameSample[] = [];
+
+  for (let frame = 0; frame < phantom.frameCount; frame++) {
+    const rgba = phantom.renderFrame(frame);
+    const start = performance.now();
+    const step = analyzeFrame(state, rgba, width, height, context);
+    elapsed += performance.now() - start;
+    state = step.state;
+    history.push({
+      time: phantom.time(frame),
+      strain: step.output.gls,
+      area: 0,
+      contour: null,
+      points: step.output.points.map(p => ({ id: p.id, x: p.current.x, y: p.current.y, quality: p.quality }))
+    });
+  }
+
+  const layout = { points: state.points, walls: state.walls };
+  const processed = hasTrajectoryProcessing(settings) ? processPositions(history, layout, [phantomBeat(phantom)], settings) : history;
+  const place = (positions: Map<string, Vector2>): TrackingPoint[] => layout.points
+    .filter(p => positions.has(p.id))
+    .map(p => ({ ...p, current: positions.get(p.id)! }));
+
+  const errors: number[][] = [];
+  const tracked: ReturnType<typeof measureFrame>[] = [];
+  const truth: ReturnType<typeof measureFrame>[] = [];
+  processed.forEach((sample, frame) => {
+    const trueFrame = phantom.truePositions(frame);
+    const trackedFrame = new Map(sample.points.map(p => [p.id, { x: p.x, y: p.y }]));
+    errors.push(sample.points.map(p => {
+      const expected = trueFrame.get(p.id)!;
+      return Math.hypot(p.x - expected.x, p.y - expected.y);
+    }));
+    tracked.push(measureFrame(phantom.view, place(trackedFrame), layout.walls, settings));
+    truth.push(measureFrame(phantom.view, place(trueFrame), layout.walls, settings));
+  });
+
+  const peak = (frames: ReturnType<typeof measureFrame>[], value: (f: ReturnType<typeof measureFrame>) => number | undefined) =>
+    Math.min(0, ...frames.map(value).filter((v): v is number => v !== undefined));
+  const segments = Object.keys(truth[truth.length - 1]?.segments ?? {}).map(Number);
+
+  return {
+    label,
+    settings,
+    meanError: mean(errors.flat()),
+    maxError: Math.max(0, ...errors.flat()),
+    finalError: mean(errors[errors.length - 1] ?? []),
+    glsTruth: peak(truth, f => f.strain),
+    glsTracked: peak(tracked, f => f.strain),
+    glsBias: mean(tracked.map((f, i) => f.strain - truth[i].strain)),
+    segmentError: mean(segments.map(seg => Math.abs(peak(tracked, f => f.segments[seg]) - peak(truth, f => f.segments[seg])))),
+    msPerFrame: elapsed / phantom.frameCount
+  };
+};
+
+export const runBenchmark = (phantom: Phantom, configs = BENCHMARK_CONFIGS): BenchmarkResult[] =>
+  configs.map(({ label, settings }) => benchmarkTracking(phantom, label, settings));
+
+// Plain-text table for the console
+export const formatBenchmark = (results: BenchmarkResult[]): string => {
+  const header = ['Setting', 'Mean err px', 'Max err px', 'Drift px', 'GLS true', 'GLS tracked', 'GLS bias', 'Seg err', 'ms/frame'];
+  const rows = results.map(r => [
+    r.label,
+    r.meanError.toFixed(2),
+    r.maxError.toFixed(2),
+    r.finalError.toFixed(2),
+    `${r.glsTruth.toFixed(1)}%`,
+    `${r.glsTracked.toFixed(1)}%`,
+    `${r.glsBias >= 0 ? '+' : ''}${r.glsBias.toFixed(2)}%`,
+    `${r.segmentError.toFixed(2)}%`,
+    r.msPerFrame.toFixed(1)
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  return [header, ...rows].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ')).join('\n');
+};
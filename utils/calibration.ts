@@ -0,0 +1,28 @@
+import { Vector2, Calibration } from '../types';
+
+export const createCalibration = (start: Vector2, end: Vector2, lengthCm: number): Calibration | null => {
+  const lengthPx = Math.hypot(end.x - start.x, end.y - start.y);
+  if (lengthPx < 1 || !(lengthCm > 0)) return null;
+  return { start, end, lengthCm, mmPerPixel: (lengthCm * 10) / lengthPx, source: 'manual' };
+};
+
+// Pixel spacing known from the acquisition, drawn as a 1 cm scale bar starting at origin
+export const createSpacingCalibration = (mmPerPixel: number, origin: Vector2): Calibration | null => {
+  if (!(mmPerPixel > 0)) return null;
+  return { start: origin, end: { x: origin.x + 10 / mmPerPixel, y: origin.y }, lengthCm: 1, mmPerPixel, source: 'dicom' };
+};
+
+export const toMm = (px: number, cal: Calibration) => px * cal.mmPerPixel;
+export const toCm2 = (pxArea: number, cal: Calibration) => (pxArea * cal.mmPerPixel * cal.mmPerPixel) / 100;
+export const toMl = (pxVolume: number, cal: Calibration) => (pxVolume * Math.pow(cal.mmPerPixel, 3)) / 1000;
+export const toCmPerSec = (pxPerSec: number, cal: Calibration) => (pxPerSec * cal.mmPerPixel) / 10;
+
+// Display helpers fall back to raw pixel units while a view is uncalibrated
+export const formatLength = (px: number, cal: Calibration | null, digits = 1) =>
+  cal ? `${toMm(px, cal).toFixed(digits)} mm` : `${px.toFixed(digits)} px`;
+
+export const formatArea = (pxArea: number, cal: Calibration | null, digits = 1) =>
+  cal ? `${toCm2(pxArea, cal).toFixed(digits)} cm²` : `${pxArea.toFixed(0)} px²`;
+
+export const formatVelocity = (pxPerSec: number, cal: Calibration | null, digits = 1) =>
+  cal ? `${toCmPerSec(pxPerSec, cal).toFixed(digits)} cm/s` : `${pxPerSec.toFixed(digits)} px/s`;
@@ -0,0 +1,136 @@
+import { FrameSample, CardiacBeat, ViewAnalysis } from '../types';
+import { computeViewVolumes } from './volumes';
+
+const MIN_CYCLE_SECONDS = 0.3; // 200 bpm
+const MIN_PROMINENCE = 0.2; // fraction of the signal range
+
+export const medianFrameInterval = (samples: { time: number }[]): number => {
+  const diffs = samples.slice(1).map((s, i) => s.time - samples[i].time).filter(d => d > 0).sort((a, b) => a - b);
+  return diffs.length > 0 ? diffs[Math.floor(diffs.length / 2)] : 1 / 30;
+};
+
+export const movingAverage = (values: number[], radius: number): number[] => {
+  return values.map((_, i) => {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(values.length - 1, i + radius);
+    let sum = 0;
+    for (let k = from; k <= to; k++) sum += values[k];
+    return sum / (to - from + 1);
+  });
+};
+
+// Local maxima that dominate a +/- halfWindow neighbourhood and rise above it by the prominence
+export const findPeaks = (values: number[], halfWindow: number, prominence: number): number[] => {
+  const peaks: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - halfWindow);
+    const to = Math.min(values.length - 1, i + halfWindow);
+    let isPeak = true;
+    let floor = values[i];
+    for (let k = from; k <= to; k++) {
+      if (values[k] > values[i] || (values[k] === values[i] && k < i)) {
+        isPeak = false;
+        break;
+      }
+      floor = Math.min(floor, values[k]);
+    }
+    if (isPeak && values[i] - floor >= prominence) peaks.push(i);
+  }
+  return peaks;
+};
+
+const argMin = (values: number[], from: number, to: number): number => {
+  let best = from;
+  for (let i = from; i <= to; i++) if (values[i] < values[best]) best = i;
+  return best;
+};
+
+// Strain re-referenced to another frame: (1 + e) / (1 + e_ref) - 1
+export const rereferenceStrain = (strain: number, reference: number): number => {
+  return ((1 + strain / 100) / (1 + reference / 100) - 1) * 100;
+};
+
+// Cavity area, or the strain curve when the area never changes; larger values are more diastolic
+export const getCycleSignal = (samples: FrameSample[]): number[] => {
+  const area = samples.map(s => s.area);
+  const areaRange = Math.max(...area) - Math.min(...area);
+  return movingAverage(areaRange > 0 ? area : samples.map(s => s.strain), 1);
+};
+
+// End-diastole is the cavity-area maximum and end-systole the minimum between two EDs.
+// Without a usable area curve the strain curve stands in, its peak shortening marking ES.
+export const detectCycles = (samples: FrameSample[]): Omit<CardiacBeat, 'gls' | 'edContour' | 'esContour' | 'ef'>[] => {
+  if (samples.length < 5) return [];
+  const dt = medianFrameInterval(samples);
+  const halfWindow = Math.max(2, Math.round(MIN_CYCLE_SECONDS / dt / 2));
+  const strain = samples.map(s => s.strain);
+
+  const signal = getCycleSignal(samples);
+  const range = Math.max(...signal) - Math.min(...signal);
+  if (range <= 0) return [];
+
+  let edFrames = findPeaks(signal, halfWindow, range * MIN_PROMINENCE);
+  if (edFrames.length === 0) edFrames = [signal.indexOf(Math.max(...signal))];
+
+  const last = samples.length - 1;
+  const complete = edFrames.length > 1;
+  const bounds = complete
+    ? edFrames.slice(0, -1).map((ed, i) => [ed, edFrames[i + 1]])
+    : [[edFrames[0], last]];
+
+  return bounds
+    .filter(([ed, end]) => end - ed >= 2)
+    .map(([ed, end]) => {
+      const es = argMin(signal, ed + 1, end - 1);
+      const peakStrainFrame = argMin(strain, ed, end);
+      return {
+        edFrame: ed,
+        esFrame: es,
+        endFrame: end,
+        peakStrainFrame,
+        edTime: samples[ed].time,
+        esTime: samples[es].time,
+        endTime: samples[end].time,
+        complete
+      };
+    });
+};
+
+export const analyzeBeats = (view: ViewAnalysis): CardiacBeat[] => {
+  return detectCycles(view.history).map(cycle => {
+    const edStrain = view.history[cycle.edFrame].strain;
+    let gls = 0;
+    for (let i = cycle.edFrame; i <= cycle.endFrame; i++) {
+      gls = Math.min(gls, rereferenceStrain(view.history[i].strain, edStrain));
+    }
+    const edContour = view.history[cycle.edFrame].contour;
+    const esContour = view.history[cycle.esFrame].contour;
+    const volumes = computeViewVolumes({ ...view, edContour, esContour });
+    return { ...cycle, gls, edContour, esContour, ef: volumes ? volumes.ef : null };
+  });
+};
+
+// First and last frame of every complete cycle; the whole clip when no complete beat was found
+export const cycleBounds = (history: FrameSample[], beats: CardiacBeat[]): [number, number][] => {
+  const complete = beats.filter(b => b.complete);
+  return complete.length > 0 ? complete.map(b => [b.edFrame, b.endFrame]) : [[0, history.length - 1]];
+};
+
+// End-diastole, end-systole and end of every complete beat; the first beat, or the whole clip with
+// systole ending at peak global strain, when none is complete
+export const cycleFrames = (view: ViewAnalysis): { ed: number, es: number, end: number }[] => {
+  const complete = view.beats.filter(b => b.complete);
+  const beats = complete.length > 0 ? complete : view.beats.slice(0, 1);
+  if (beats.length > 0) return beats.map(b => ({ ed: b.edFrame, es: b.esFrame, end: b.endFrame }));
+  const last = view.history.length - 1;
+  return [{ ed: 0, es: argMin(view.history.map(s => s.strain), 0, last), end: last }];
+};
+
+export const averageBeats = (beats: CardiacBeat[]): { gls: number, ef: number } | null => {
+  if (beats.length === 0) return null;
+  const withEf = beats.filter(b => b.ef !== null);
+  return {
+    gls: beats.reduce((acc, b) => acc + b.gls, 0) / beats.length,
+    ef: withEf.length > 0 ? withEf.reduce((acc, b) => acc + (b.ef as number), 0) / withEf.length : 0
+  };
+};
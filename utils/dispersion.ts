@@ -0,0 +1,55 @@
+import { ViewAnalysis, MechanicalDispersion, SegmentStatus } from '../types';
+import { cycleFrames, rereferenceStrain } from './cycles';
+
+export const POST_SYSTOLIC_INDEX_LIMIT = 20; // %, above which post-systolic shortening is flagged
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const argMin = (values: number[]) => values.reduce((best, value, i) => (value < values[best] ? i : best), 0);
+
+// Time from end-diastole to the segment's peak shortening and the share of that peak gained after
+// end-systole, per cycle against its end-diastole and averaged; null for a segment that never shortens
+export const segmentTiming = (view: ViewAnalysis, segment: number): { timeToPeak: number, postSystolicIndex: number } | null => {
+  const curve = view.segmentCurves[segment];
+  if (!curve || curve.length < 3) return null;
+  const cycles = cycleFrames(view)
+    .filter(({ ed, es, end }) => es > ed && end < curve.length)
+    .map(({ ed, es, end }) => {
+      const strain = curve.slice(ed, end + 1).map(s => rereferenceStrain(s.strain, curve[ed].strain));
+      const peak = argMin(strain);
+      if (strain[peak] >= 0) return null;
+      const systolic = Math.min(0, ...strain.slice(0, es - ed + 1));
+      return {
+        timeToPeak: (curve[ed + peak].time - curve[ed].time) * 1000,
+        postSystolicIndex: ((strain[peak] - systolic) / strain[peak]) * 100
+      };
+    })
+    .filter((c): c is NonNullable<typeof c> => c !== null);
+  if (cycles.length === 0) return null;
+  return { timeToPeak: mean(cycles.map(c => c.timeToPeak)), postSystolicIndex: mean(cycles.map(c => c.postSystolicIndex)) };
+};
+
+// Segmental timing averaged over the views that cover each segment; mechanical dispersion is the
+// SD of time-to-peak over the segments that passed tracking QC
+export const computeMechanicalDispersion = (views: ViewAnalysis[], quality: (SegmentStatus | null)[] = []): MechanicalDispersion | null => {
+  const tracked = views.filter(v => v.history.length >= 3);
+  if (tracked.length === 0) return null;
+
+  const perSegment = Array.from({ length: 17 }).map((_, seg) =>
+    tracked.map(v => segmentTiming(v, seg)).filter((t): t is NonNullable<typeof t> => t !== null));
+  const timeToPeak = perSegment.map(t => (t.length > 0 ? mean(t.map(s => s.timeToPeak)) : null));
+  const postSystolicIndex = perSegment.map(t => (t.length > 0 ? mean(t.map(s => s.postSystolicIndex)) : null));
+
+  const reliable = timeToPeak.filter((t, seg): t is number => t !== null && quality[seg]?.reliable !== false);
+  const average = reliable.length > 0 ? mean(reliable) : 0;
+  const systoles = tracked.flatMap(v => cycleFrames(v)
+    .filter(({ ed, es }) => es > ed && es < v.history.length)
+    .map(({ ed, es }) => (v.history[es].time - v.history[ed].time) * 1000));
+
+  return {
+    timeToPeak,
+    postSystolicIndex,
+    dispersion: reliable.length >= 2 ? Math.sqrt(mean(reliable.map(t => (t - average) ** 2))) : null,
+    endSystole: systoles.length > 0 ? mean(systoles) : null
+  };
+};
@@ -0,0 +1,91 @@
+import { FrameSample, CardiacBeat, HeartRateEstimate } from '../types';
+import { getCycleSignal, medianFrameInterval } from './cycles';
+
+const MIN_RR_SECONDS = 0.3; // 200 bpm
+const MAX_RR_SECONDS = 2.0; // 30 bpm
+const MIN_CORRELATION = 0.3;
+
+export const autocorrelation = (values: number[], lag: number): number => {
+  const n = values.length - lag;
+  if (n < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < values.length; i++) {
+    const d = values[i] - mean;
+    den += d * d;
+    if (i < n) num += d * (values[i + lag] - mean);
+  }
+  return den > 0 ? num / den : 0;
+};
+
+const rrStats = (beats: CardiacBeat[]) => {
+  const rrIntervals = beats.filter(b => b.complete).map(b => b.endTime - b.edTime);
+  if (rrIntervals.length === 0) return { rrIntervals, rrVariability: null };
+  const mean = rrIntervals.reduce((a, b) => a + b, 0) / rrIntervals.length;
+  const rrVariability = rrIntervals.length > 1
+    ? Math.sqrt(rrIntervals.reduce((acc, rr) => acc + (rr - mean) * (rr - mean), 0) / (rrIntervals.length - 1)) * 1000
+    : null;
+  return { rrIntervals, rrVariability };
+};
+
+// The first autocorrelation maximum in the physiological R-R range gives the cycle length, refined
+// by parabolic interpolation. Clips too short for a second period fall back to ED-to-ED spacing.
+export const estimateHeartRate = (samples: FrameSample[], beats: CardiacBeat[]): HeartRateEstimate | null => {
+  const { rrIntervals, rrVariability } = rrStats(beats);
+
+  if (samples.length >= 5) {
+    const dt = medianFrameInterval(samples);
+    const signal = getCycleSignal(samples);
+    const minLag = Math.max(1, Math.round(MIN_RR_SECONDS / dt));
+    const maxLag = Math.min(Math.round(MAX_RR_SECONDS / dt), Math.floor(signal.length * 0.75));
+
+    const r = (lag: number) => autocorrelation(signal, lag);
+    let bestLag = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const v = r(lag);
+      if (v > r(lag - 1) && v >= r(lag + 1) && v >= MIN_CORRELATION) {
+        bestLag = lag;
+        break;
+      }
+    }
+
+    if (bestLag > 0) {
+      const y0 = r(bestLag - 1);
+      const y1 = r(bestLag);
+      const y2 = r(bestLag + 1);
+      const denom = y0 - 2 * y1 + y2;
+      const offset = denom !== 0 ? (0.5 * (y0 - y2)) / denom : 0;
+      const period = (bestLag + Math.max(-0.5, Math.min(0.5, offset))) * dt;
+      return {
+        bpm: 60 / period,
+        confidence: Math.max(0, Math.min(1, y1)),
+        method: 'autocorrelation',
+        rrIntervals,
+        rrVariability
+      };
+    }
+  }
+
+  if (rrIntervals.length > 0) {
+    const mean = rrIntervals.reduce((a, b) => a + b, 0) / rrIntervals.length;
+    // A single interval gives no check on consistency
+    const confidence = rrVariability !== null ? Math.max(0, 1 - rrVariability / 1000 / mean) : 0.5;
+    return { bpm: 60 / mean, confidence, method: 'peak-spacing', rrIntervals, rrVariability };
+  }
+  return null;
+};
+
+// Heart rate recorded by the scanner; the clip still supplies the R-R intervals
+export const taggedHeartRate = (bpm: number, clip: HeartRateEstimate | null): HeartRateEstimate => ({
+  bpm,
+  confidence: 1,
+  method: 'dicom',
+  rrIntervals: clip ? clip.rrIntervals : [],
+  rrVariability: clip ? clip.rrVariability : null
+});
+
+// Keeps the estimate from the view whose signal was most periodic
+export const pickHeartRate = (estimates: (HeartRateEstimate | null)[]): HeartRateEstimate | null => {
+  return estimates.reduce<HeartRateEstimate | null>((best, e) => (e && (!best || e.confidence > best.confidence) ? e : best), null);
+};
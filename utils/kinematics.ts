@@ -0,0 +1,119 @@
+import { ViewAnalysis, LongAxis, StrainSample, CurveSample, CurveType, CardiacBeat, StrainRatePeaks } from '../types';
+import { toMm, toCmPerSec } from './calibration';
+
+export interface CurveSet {
+  unit: string;
+  global: CurveSample[];
+  segments: { [segment: number]: CurveSample[] };
+}
+
+export const CURVE_LABELS: { [key in CurveType]: string } = {
+  strain: 'Strain',
+  strainRate: 'Strain Rate',
+  velocity: 'Velocity',
+  displacement: 'Displacement'
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Central differences in time; the first and last sample fall back to one-sided differences
+export const timeDerivative = (samples: CurveSample[]): CurveSample[] => samples.map((s, i) => {
+  const a = samples[Math.max(0, i - 1)];
+  const b = samples[Math.min(samples.length - 1, i + 1)];
+  return { time: s.time, value: b.time > a.time ? (b.value - a.value) / (b.time - a.time) : 0 };
+});
+
+// Strain rate in 1/s from a strain curve in %
+export const strainRateCurve = (curve: StrainSample[]): CurveSample[] =>
+  timeDerivative(curve.map(s => ({ time: s.time, value: s.strain / 100 })));
+
+// Displacement of every point from its reference position, per frame: along the long axis towards
+// the apex (positive in systole, as with tissue Doppler) or, without an axis, its magnitude. In px.
+export const pointDisplacements = (view: ViewAnalysis, axis: LongAxis | null): Map<string, CurveSample[]> => {
+  const length = axis ? Math.hypot(axis.apex.x - axis.base.x, axis.apex.y - axis.base.y) || 1 : 1;
+  const dir = axis ? { x: (axis.apex.x - axis.base.x) / length, y: (axis.apex.y - axis.base.y) / length } : null;
+  const curves = new Map<string, CurveSample[]>(view.points.map(p => [p.id, []]));
+  const initial = new Map(view.points.map(p => [p.id, p.initial]));
+
+  view.history.forEach(sample => {
+    sample.points.forEach(pos => {
+      const origin = initial.get(pos.id);
+      if (!origin) return;
+      const dx = pos.x - origin.x;
+      const dy = pos.y - origin.y;
+      curves.get(pos.id)!.push({ time: sample.time, value: dir ? dx * dir.x + dy * dir.y : Math.hypot(dx, dy) });
+    });
+  });
+  return curves;
+};
+
+export const pointVelocities = (view: ViewAnalysis, axis: LongAxis | null): Map<string, CurveSample[]> =>
+  new Map([...pointDisplacements(view, axis)].map(([id, curve]) => [id, timeDerivative(curve)]));
+
+// Frame-by-frame mean of several curves sampled at the same times
+const averageCurves = (curves: CurveSample[][]): CurveSample[] => {
+  const usable = curves.filter(c => c.length > 0);
+  if (usable.length === 0) return [];
+  const frames = Math.min(...usable.map(c => c.length));
+  return Array.from({ length: frames }, (_, i) => ({ time: usable[0][i].time, value: mean(usable.map(c => c[i].value)) }));
+};
+
+// One curve type for the whole view and each of its segments. Velocity and displacement average
+// the points of the endocardial trace (global) or of the segment, in physical units once calibrated.
+export const buildCurves = (view: ViewAnalysis, axis: LongAxis | null, type: CurveType): CurveSet => {
+  if (type === 'strain' || type === 'strainRate') {
+    const convert = (curve: StrainSample[]) => (type === 'strain' ? curve.map(s => ({ time: s.time, value: s.strain })) : strainRateCurve(curve));
+    return {
+      unit: type === 'strain' ? '%' : '1/s',
+      global: convert(view.history),
+      segments: Object.fromEntries(Object.entries(view.segmentCurves).map(([seg, curve]) => [seg, convert(curve)]))
+    };
+  }
+
+  const cal = view.calibration;
+  const perPoint = type === 'velocity' ? pointVelocities(view, axis) : pointDisplacements(view, axis);
+  const scale = (value: number) => (!cal ? value : type === 'velocity' ? toCmPerSec(value, cal) : toMm(value, cal));
+  const curveOf = (ids: string[]) => averageCurves(ids.map(id => perPoint.get(id) ?? [])).map(s => ({ time: s.time, value: scale(s.value) }));
+
+  const bySegment = new Map<number, string[]>();
+  view.points.forEach(p => {
+    if (p.segment !== null) bySegment.set(p.segment, [...(bySegment.get(p.segment) || []), p.id]);
+  });
+  return {
+    unit: type === 'velocity' ? (cal ? 'cm/s' : 'px/s') : (cal ? 'mm' : 'px'),
+    global: curveOf(view.walls.endocardium),
+    segments: Object.fromEntries([...bySegment].map(([seg, ids]) => [seg, curveOf(ids)]))
+  };
+};
+
+// Peak systolic strain rate (most negative between end-diastole and end-systole) and the early and
+// late diastolic peaks (largest positive value in the first and second half of diastole), averaged
+// over the beats; without a detected beat the clip is one cycle ending systole at its strain minimum
+export const strainRatePeaks = (history: StrainSample[], beats: CardiacBeat[]): StrainRatePeaks | null => {
+  if (history.length < 3) return null;
+  const rate = strainRateCurve(history).map(s => s.value);
+  const strainMin = history.reduce((best, s, i) => (s.strain < history[best].strain ? i : best), 0);
+  const cycles = beats.length > 0
+    ? beats.map(b => [b.edFrame, b.esFrame, b.endFrame])
+    : [[0, strainMin, history.length - 1]];
+
+  const peaks = cycles.filter(([ed, es, end]) => es > ed && end > es).map(([ed, es, end]) => {
+    const mid = Math.floor((es + end) / 2);
+    const positive = (from: number, to: number) => {
+      const value = Math.max(...rate.slice(from, to + 1));
+      return value > 0 ? value : null;
+    };
+    return { srs: Math.min(...rate.slice(ed, es + 1)), sre: positive(es, mid), sra: positive(mid + 1, end) };
+  });
+  if (peaks.length === 0) return null;
+  return averageStrainRates(peaks);
+};
+
+export const averageStrainRates = (peaks: StrainRatePeaks[]): StrainRatePeaks | null => {
+  if (peaks.length === 0) return null;
+  const optional = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length > 0 ? mean(present) : null;
+  };
+  return { srs: mean(peaks.map(p => p.srs)), sre: optional(peaks.map(p => p.sre)), sra: optional(peaks.map(p => p.sra)) };
+};
@@ -1,27 +1,53 @@
 
-import { Vector2, TrackingPoint } from '../types';
+import { Vector2, TrackingPoint, TrackingSettings, TrackResult, GrayImage, MaskFrame } from '../types';
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  algorithm: 'sad',
+  blockSize: 14,
+  searchWindow: 28,
+  pyramid: false,
+  minQuality: 0.5,
+  excludeLowQuality: false,
+  forwardBackward: false,
+  driftCorrection: false,
+  spatialSmoothing: 0,
+  temporalWindow: 0
+};
+
+const FB_MAX_ERROR = 4; // px of round-trip error that costs the whole match quality
+
+// Echo frames are grayscale, so the red channel of the RGBA frame is kept
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) data[i] = rgba[i * 4];
+  return { data, width, height };
+};
 
 export const enhanceContrast = (data: Uint8ClampedArray) => {
   let min = 255, max = 0;
-  for (let i = 0; i < data.length; i += 4) {
+  for (let i = 0; i < data.length; i++) {
     const v = data[i];
     if (v < min) min = v;
     if (v > max) max = v;
   }
   const range = max - min || 1;
-  for (let i = 0; i < data.length; i += 4) {
-    const v = ((data[i] - min) / range) * 255;
-    data[i] = data[i + 1] = data[i + 2] = v;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = ((data[i] - min) / range) * 255;
   }
 };
 
-export const calculateArea = (points: Vector2[]): number => {
-  if (points.length < 3) return 0;
+export const orderContour = (points: Vector2[]): Vector2[] => {
+  if (points.length === 0) return [];
   const centerX = points.reduce((a, b) => a + b.x, 0) / points.length;
   const centerY = points.reduce((a, b) => a + b.y, 0) / points.length;
-  const sorted = [...points].sort((a, b) => {
+  return [...points].sort((a, b) => {
     return Math.atan2(a.y - centerY, a.x - centerX) - Math.atan2(b.y - centerY, b.x - centerX);
   });
+};
+
+export const calculateArea = (points: Vector2[]): number => {
+  if (points.length < 3) return 0;
+  const sorted = orderContour(points);
   let area = 0;
   for (let i = 0; i < sorted.length; i++) {
     const j = (i + 1) % sorted.length;
@@ -31,24 +57,33 @@ export const calculateArea = (points: Vector2[]): number => {
   return Math.abs(area) / 2;
 };
 
+const EDGE_THRESHOLD = 75;
+
+// Sobel gradient magnitude at an interior pixel
+const sobelAt = (image: GrayImage, x: number, y: number): number => {
+  const { data, width } = image;
+  const gx = -data[(y - 1) * width + x - 1] + data[(y - 1) * width + x + 1]
+    - 2 * data[y * width + x - 1] + 2 * data[y * width + x + 1]
+    - data[(y + 1) * width + x - 1] + data[(y + 1) * width + x + 1];
+  const gy = -data[(y - 1) * width + x - 1] - 2 * data[(y - 1) * width + x] - data[(y - 1) * width + x + 1]
+    + data[(y + 1) * width + x - 1] + 2 * data[(y + 1) * width + x] + data[(y + 1) * width + x + 1];
+  return Math.sqrt(gx * gx + gy * gy);
+};
+
+// Green edges while the wall shortens by more than 15 %, red otherwise
+const maskColor = (strainValue: number): [number, number, number] =>
+  strainValue < -15 ? [34, 197, 94] : [239, 68, 68];
+
+// Sobel edge overlay as an RGBA buffer of the same size as the image
 export const createDiagnosticMask = (
-  ctx: CanvasRenderingContext2D, 
-  width: number, 
-  height: number, 
+  image: GrayImage, 
   strainValue: number,
   roi: { x: number, y: number, w: number, h: number } | null
-): ImageData => {
-  const input = ctx.getImageData(0, 0, width, height);
-  const output = ctx.createImageData(width, height);
-  const inputData = input.data;
-  const outputData = output.data;
-
-  const kernelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-  const kernelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+): Uint8ClampedArray => {
+  const { width, height } = image;
+  const outputData = new Uint8ClampedArray(width * height * 4);
 
-  const r = strainValue < -15 ? 34 : 239;
-  const g = strainValue < -15 ? 197 : 68;
-  const b = strainValue < -15 ? 94 : 68;
+  const [r, g, b] = maskColor(strainValue);
 
   const minX = roi ? roi.x : 0;
   const minY = roi ? roi.y : 0;
@@ -65,19 +100,8 @@ export const createDiagnosticMask = (
         continue;
       }
 
-      let pixelX = 0;
-      let pixelY = 0;
-      for (let ky = -1; ky <= 1; ky++) {
-        for (let kx = -1; kx <= 1; kx++) {
-          const idx = ((y + ky) * width + (x + kx)) * 4;
-          const val = inputData[idx];
-          pixelX += val * kernelX[(ky + 1) * 3 + (kx + 1)];
-          pixelY += val * kernelY[(ky + 1) * 3 + (kx + 1)];
-        }
-      }
-
-      const mag = Math.sqrt(pixelX * pixelX + pixelY * pixelY);
-      if (mag > 75) {
+      const mag = sobelAt(image, x, y);
+      if (mag > EDGE_THRESHOLD) {
         outputData[outIdx] = r;
         outputData[outIdx + 1] = g;
         outputData[outIdx + 2] = b;
@@ -87,16 +111,70 @@ export const createDiagnosticMask = (
       }
     }
   }
-  return output;
+  return outputData;
+};
+
+// Keeps only the alpha of a diagnostic mask, max-pooled by `scale` so thin edges survive,
+// small enough to store one per frame
+export const packMask = (rgba: Uint8ClampedArray, width: number, height: number, scale: number = 2): MaskFrame => {
+  const w = Math.ceil(width / scale);
+  const h = Math.ceil(height / scale);
+  const alpha = new Uint8ClampedArray(w * h);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const a = rgba[(y * width + x) * 4 + 3];
+      const i = Math.floor(y / scale) * w + Math.floor(x / scale);
+      if (a > alpha[i]) alpha[i] = a;
+    }
+  }
+  return { alpha, width: w, height: h, scale };
+};
+
+// Full-size RGBA mask again, coloured by the strain of its frame
+export const unpackMask = (mask: MaskFrame, strainValue: number, width: number, height: number): Uint8ClampedArray => {
+  const [r, g, b] = maskColor(strainValue);
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(mask.height - 1, Math.floor(y / mask.scale)) * mask.width;
+    for (let x = 0; x < width; x++) {
+      const a = mask.alpha[row + Math.min(mask.width - 1, Math.floor(x / mask.scale))];
+      if (a === 0) continue;
+      const i = (y * width + x) * 4;
+      out[i] = r;
+      out[i + 1] = g;
+      out[i + 2] = b;
+      out[i + 3] = a;
+    }
+  }
+  return out;
+};
+
+// Moves a point onto the nearest pixel the diagnostic mask shows as edge; unchanged when none is in reach
+export const snapToEdge = (image: GrayImage, point: Vector2, radius: number = 8): Vector2 => {
+  const { width, height } = image;
+  const cx = Math.round(point.x);
+  const cy = Math.round(point.y);
+  let best: Vector2 | null = null;
+  let bestDist = Infinity;
+  for (let y = Math.max(1, cy - radius); y <= Math.min(height - 2, cy + radius); y++) {
+    for (let x = Math.max(1, cx - radius); x <= Math.min(width - 2, cx + radius); x++) {
+      const dist = (x - point.x) ** 2 + (y - point.y) ** 2;
+      if (dist > radius * radius || dist >= bestDist) continue;
+      if (sobelAt(image, x, y) > EDGE_THRESHOLD) {
+        best = { x, y };
+        bestDist = dist;
+      }
+    }
+  }
+  return best ?? point;
 };
 
 export const autoDetectWalls = (
-  edgeCtx: CanvasRenderingContext2D, 
-  width: number, 
-  height: number,
+  image: GrayImage, 
   roi: { x: number, y: number, w: number, h: number } | null
 ): TrackingPoint[] => {
-  const imgData = edgeCtx.getImageData(0, 0, width, height).data;
+  const { width, height } = image;
+  const imgData = image.data;
   const points: TrackingPoint[] = [];
   const threshold = 130; 
   const step = 18;
@@ -108,14 +186,18 @@ export const autoDetectWalls = (
 
   for (let y = minY; y < maxY; y += step) {
     for (let x = minX; x < maxX; x += step) {
-      const idx = (Math.floor(y) * width + Math.floor(x)) * 4;
+      const idx = Math.floor(y) * width + Math.floor(x);
       if (imgData[idx] > threshold) {
         points.push({
           id: `auto-${x}-${y}-${Date.now()}`,
           initial: { x, y },
           current: { x, y },
           velocity: { x: 0, y: 0 },
-          strain: 0
+          strain: 0,
+          peakStrain: 0,
+          segment: null,
+          quality: 1,
+          lowQuality: false
         });
       }
     }
@@ -123,25 +205,30 @@ export const autoDetectWalls = (
   return points;
 };
 
-export const trackSpeckle = (
-  prevCtx: CanvasRenderingContext2D,
-  currCtx: CanvasRenderingContext2D,
+// SAD block matching on a stride-2 grid. Quality is 1 - best SAD / mean SAD over the search, so a
+// match no better than the surrounding offsets scores 0 whatever the speckle brightness.
+export const matchSAD = (
+  prev: GrayImage,
+  curr: GrayImage,
   point: Vector2,
   blockSize: number = 14,
   searchWindow: number = 24
-): Vector2 => {
+): TrackResult => {
   const halfBlock = blockSize / 2;
   const halfSearch = searchWindow / 2;
   const px = Math.floor(point.x);
   const py = Math.floor(point.y);
 
   if (px - halfBlock < 0 || py - halfBlock < 0 || 
-      px + halfBlock >= currCtx.canvas.width || py + halfBlock >= currCtx.canvas.height) {
-    return point;
+      px + halfBlock >= curr.width || py + halfBlock >= curr.height) {
+    return { position: point, quality: 0 };
   }
 
-  const template = prevCtx.getImageData(px - halfBlock, py - halfBlock, blockSize, blockSize).data;
+  const tx = px - halfBlock;
+  const ty = py - halfBlock;
   let minSAD = Infinity;
+  let sumSAD = 0;
+  let count = 0;
   let bestOffset = { x: 0, y: 0 };
 
   for (let dy = -halfSearch; dy <= halfSearch; dy += 2) {
@@ -149,14 +236,19 @@ export const trackSpeckle = (
       const cx = px + dx - halfBlock;
       const cy = py + dy - halfBlock;
 
-      if (cx < 0 || cy < 0 || cx + blockSize > currCtx.canvas.width || cy + blockSize > currCtx.canvas.height) continue;
+      if (cx < 0 || cy < 0 || cx + blockSize > curr.width || cy + blockSize > curr.height) continue;
 
-      const candidate = currCtx.getImageData(cx, cy, blockSize, blockSize).data;
       let sad = 0;
-      for (let i = 0; i < template.length; i += 4) {
-        sad += Math.abs(template[i] - candidate[i]);
+      for (let y = 0; y < blockSize; y++) {
+        const tRow = (ty + y) * prev.width + tx;
+        const cRow = (cy + y) * curr.width + cx;
+        for (let x = 0; x < blockSize; x++) {
+          sad += Math.abs(prev.data[tRow + x] - curr.data[cRow + x]);
+        }
       }
 
+      sumSAD += sad;
+      count++;
       if (sad < minSAD) {
         minSAD = sad;
         bestOffset = { x: dx, y: dy };
@@ -164,21 +256,166 @@ export const trackSpeckle = (
     }
   }
 
-  return { x: point.x + bestOffset.x, y: point.y + bestOffset.y };
+  // A textureless block matches every offset equally and gets no credit
+  const meanSAD = count > 0 ? sumSAD / count : 0;
+  const quality = meanSAD > 0 ? Math.max(0, 1 - minSAD / meanSAD) : 0;
+  return { position: { x: point.x + bestOffset.x, y: point.y + bestOffset.y }, quality };
 };
 
-export const simulateHeartbeat = (points: TrackingPoint[], phase: number): TrackingPoint[] => {
-  const contraction = Math.sin(phase) * 0.12; 
-  return points.map(pt => {
-    const dx = pt.initial.x - 300; 
-    const dy = pt.initial.y - 225;
-    return {
-      ...pt,
-      current: {
-        x: pt.initial.x - dx * contraction,
-        y: pt.initial.y - dy * contraction
-      },
-      strain: contraction * -100
-    };
-  });
+export const trackSpeckle = (
+  prev: GrayImage,
+  curr: GrayImage,
+  point: Vector2,
+  blockSize: number = 14,
+  searchWindow: number = 24
+): Vector2 => {
+  return matchSAD(prev, curr, point, blockSize, searchWindow).position;
+};
+
+interface GrayBlock {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const crop = (image: GrayImage, x: number, y: number, width: number, height: number): GrayBlock => {
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      data[row * width + col] = image.data[(y + row) * image.width + x + col];
+    }
+  }
+  return { data, width, height };
+};
+
+const downsample = (src: GrayBlock): GrayBlock => {
+  const w = Math.floor(src.width / 2);
+  const h = Math.floor(src.height / 2);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = 2 * y * src.width + 2 * x;
+      out[y * w + x] = (src.data[i] + src.data[i + 1] + src.data[i + src.width] + src.data[i + src.width + 1]) / 4;
+    }
+  }
+  return { data: out, width: w, height: h };
+};
+
+// Zero-mean normalized cross-correlation of the template against the block at (ox, oy)
+const nccAt = (tpl: GrayBlock, img: GrayBlock, ox: number, oy: number): number => {
+  if (ox < 0 || oy < 0 || ox + tpl.width > img.width || oy + tpl.height > img.height) return -1;
+  const n = tpl.width * tpl.height;
+  let sumT = 0, sumC = 0;
+  for (let y = 0; y < tpl.height; y++) {
+    for (let x = 0; x < tpl.width; x++) {
+      sumT += tpl.data[y * tpl.width + x];
+      sumC += img.data[(oy + y) * img.width + ox + x];
+    }
+  }
+  const meanT = sumT / n;
+  const meanC = sumC / n;
+  let num = 0, varT = 0, varC = 0;
+  for (let y = 0; y < tpl.height; y++) {
+    for (let x = 0; x < tpl.width; x++) {
+      const t = tpl.data[y * tpl.width + x] - meanT;
+      const c = img.data[(oy + y) * img.width + ox + x] - meanC;
+      num += t * c;
+      varT += t * t;
+      varC += c * c;
+    }
+  }
+  const den = Math.sqrt(varT * varC);
+  return den > 0 ? num / den : 0;
+};
+
+const searchNCC = (tpl: GrayBlock, img: GrayBlock, cx: number, cy: number, radius: number) => {
+  let best = { x: cx, y: cy, score: -Infinity };
+  for (let oy = cy - radius; oy <= cy + radius; oy++) {
+    for (let ox = cx - radius; ox <= cx + radius; ox++) {
+      const score = nccAt(tpl, img, ox, oy);
+      if (score > best.score) best = { x: ox, y: oy, score };
+    }
+  }
+  return best;
+};
+
+// Vertex offset of the parabola through three equally spaced samples, within +/- 0.5
+const parabolicOffset = (left: number, center: number, right: number): number => {
+  const denom = left - 2 * center + right;
+  if (denom >= 0 || left < -0.5 || right < -0.5) return 0;
+  return Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denom));
+};
+
+// NCC block matching at every integer offset with parabolic sub-pixel refinement. NCC is
+// insensitive to gain changes between frames; its peak value doubles as the quality score.
+export const matchNCC = (
+  prev: GrayImage,
+  curr: GrayImage,
+  point: Vector2,
+  blockSize: number = 14,
+  searchWindow: number = 24,
+  pyramid: boolean = false
+): TrackResult => {
+  const halfBlock = Math.floor(blockSize / 2);
+  const halfSearch = Math.floor(searchWindow / 2);
+  const { width, height } = curr;
+  const px = Math.floor(point.x);
+  const py = Math.floor(point.y);
+
+  if (px - halfBlock < 0 || py - halfBlock < 0 || px + halfBlock >= width || py + halfBlock >= height) {
+    return { position: point, quality: 0 };
+  }
+
+  const tpl = crop(prev, px - halfBlock, py - halfBlock, blockSize, blockSize);
+  const rx = Math.max(0, px - halfBlock - halfSearch);
+  const ry = Math.max(0, py - halfBlock - halfSearch);
+  const rw = Math.min(width, px - halfBlock + blockSize + halfSearch) - rx;
+  const rh = Math.min(height, py - halfBlock + blockSize + halfSearch) - ry;
+  const img = crop(curr, rx, ry, rw, rh);
+
+  // Top-left of the unmoved block in search-region coordinates
+  const cx = px - halfBlock - rx;
+  const cy = py - halfBlock - ry;
+
+  let best;
+  if (pyramid && blockSize >= 8) {
+    const coarse = searchNCC(downsample(tpl), downsample(img), Math.floor(cx / 2), Math.floor(cy / 2), Math.ceil(halfSearch / 2));
+    best = searchNCC(tpl, img, coarse.x * 2, coarse.y * 2, 2);
+  } else {
+    best = searchNCC(tpl, img, cx, cy, halfSearch);
+  }
+  if (best.score === -Infinity || best.score < 0) return { position: point, quality: 0 };
+
+  const subX = parabolicOffset(nccAt(tpl, img, best.x - 1, best.y), best.score, nccAt(tpl, img, best.x + 1, best.y));
+  const subY = parabolicOffset(nccAt(tpl, img, best.x, best.y - 1), best.score, nccAt(tpl, img, best.x, best.y + 1));
+
+  return {
+    position: { x: point.x + best.x - cx + subX, y: point.y + best.y - cy + subY },
+    quality: Math.min(1, best.score)
+  };
+};
+
+export const trackPoint = (
+  prev: GrayImage,
+  curr: GrayImage,
+  point: Vector2,
+  settings: TrackingSettings
+): TrackResult => {
+  if (settings.algorithm === 'ncc') {
+    return matchNCC(prev, curr, point, settings.blockSize, settings.searchWindow, settings.pyramid);
+  }
+  return matchSAD(prev, curr, point, settings.blockSize, settings.searchWindow);
+};
+
+// Forward-backward consistency: the match is tracked back from the current frame and the
+// distance to where it started is turned into a score between 0 and 1
+export const forwardBackwardScore = (
+  prev: GrayImage,
+  curr: GrayImage,
+  from: Vector2,
+  to: Vector2,
+  settings: TrackingSettings
+): number => {
+  const back = trackPoint(curr, prev, to, settings).position;
+  return Math.max(0, 1 - Math.hypot(back.x - from.x, back.y - from.y) / FB_MAX_ERROR);
 };
@@ -0,0 +1,218 @@
+import { ApicalView, PhantomSettings, ROI, TrackingPoint, Vector2 } from '../types';
+import { getLongAxis, getSegmentIndex } from './segments';
+
+export const DEFAULT_PHANTOM_SETTINGS: PhantomSettings = {
+  width: 600,
+  height: 450,
+  fps: 30,
+  duration: 1,
+  gls: -20,
+  hypokinesis: {},
+  noise: 0,
+  gainChange: 0,
+  seed: 1
+};
+
+const CURVE_SAMPLES = 801;
+const WALL_THICKNESS = 14; // px
+const SCATTER_DENSITY = 0.25; // scatterers per px² of myocardium
+const SPECKLE_SIGMA = 1.2; // px
+const END_SYSTOLE = 0.35; // fraction of the cycle
+const RELAXATION = 0.25; // fraction of the cycle from end-systole back to the diastolic length
+const SEEDS_PER_LAYER = 32;
+
+export interface Phantom {
+  settings: PhantomSettings;
+  view: ApicalView;
+  roi: ROI;
+  frameCount: number;
+  esFrame: number;
+  seedPoints: TrackingPoint[]; // endocardial and mid-wall points at their end-diastolic positions
+  time: (frame: number) => number;
+  prescribedStrain: (frame: number) => number; // of the normal segments, %
+  truePositions: (frame: number) => Map<string, Vector2>; // seed point id -> position
+  renderFrame: (frame: number) => Uint8ClampedArray; // RGBA, like a decoded cine frame
+}
+
+// mulberry32, so a phantom renders the same frames on every run
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const gaussian = (random: () => number) => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+// Share of the peak shortening over the cycle: 0 at end-diastole, 1 at end-systole, back to 0
+// after rapid relaxation and flat through diastasis
+export const contractionAt = (phase: number): number => {
+  if (phase <= END_SYSTOLE) return (1 - Math.cos((Math.PI * Math.max(0, phase)) / END_SYSTOLE)) / 2;
+  if (phase <= END_SYSTOLE + RELAXATION) return (1 + Math.cos((Math.PI * (phase - END_SYSTOLE)) / RELAXATION)) / 2;
+  return 0;
+};
+
+// Apical 4-chamber LV as a half-ellipse of speckled myocardium. The apex stays put and every
+// stretch of wall shortens by its prescribed strain, so the bases slide along the wall towards
+// the apex; segments listed under hypokinesis shorten by their share of the normal strain.
+export const createPhantom = (overrides: Partial<PhantomSettings> = {}): Phantom => {
+  const settings = { ...DEFAULT_PHANTOM_SETTINGS, ...overrides };
+  const { width, height, fps, duration } = settings;
+  const view: ApicalView = 'a4c';
+  const cx = width / 2;
+  const apexY = height * 0.2;
+  const baseY = height * 0.87;
+  const halfWidth = width / 6;
+  const roi: ROI = {
+    x: cx - halfWidth - 2 * WALL_THICKNESS,
+    y: apexY - WALL_THICKNESS,
+    w: 2 * (halfWidth + 2 * WALL_THICKNESS),
+    h: baseY - apexY + WALL_THICKNESS
+  };
+  const axis = getLongAxis(roi);
+
+  // Mid-wall curve from one base over the apex to the other, its arc length and outward normals
+  const last = CURVE_SAMPLES - 1;
+  const apexIndex = last / 2;
+  const curve = Array.from({ length: CURVE_SAMPLES }, (_, i) => {
+    const phi = ((2 * i) / last - 1) * (Math.PI / 2);
+    return { x: cx + halfWidth * Math.sin(phi), y: apexY + (baseY - apexY) * (1 - Math.cos(phi)) };
+  });
+  const arc = [0];
+  for (let i = 1; i <= last; i++) arc.push(arc[i - 1] + Math.hypot(curve[i].x - curve[i - 1].x, curve[i].y - curve[i - 1].y));
+  const normals = curve.map((p, i) => {
+    const a = curve[Math.max(0, i - 1)];
+    const b = curve[Math.min(last, i + 1)];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const n = { x: (b.y - a.y) / length, y: -(b.x - a.x) / length };
+    const outward = (p.x - cx) * n.x + (p.y - (apexY + baseY) / 2) * n.y >= 0;
+    return outward ? n : { x: -n.x, y: -n.y };
+  });
+  const factors = curve.map(p => {
+    const segment = getSegmentIndex(view, p, axis);
+    return segment !== null ? settings.hypokinesis[segment] ?? 1 : 1;
+  });
+
+  // Fractional curve sample at an arc length, clamped to the curve
+  const sampleAtArc = (s: number): number => {
+    const clamped = Math.min(arc[last], Math.max(0, s));
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (arc[mid] <= clamped) lo = mid; else hi = mid;
+    }
+    return lo + (arc[hi] > arc[lo] ? (clamped - arc[lo]) / (arc[hi] - arc[lo]) : 0);
+  };
+
+  // Position at an arc length along the reference curve, offset along its normal (negative inwards)
+  const positionAtArc = (s: number, r: number): Vector2 => {
+    const sample = sampleAtArc(s);
+    const lo = Math.min(last - 1, Math.floor(sample));
+    const f = sample - lo;
+    const lerp = (a: number, b: number) => a + (b - a) * f;
+    return {
+      x: lerp(curve[lo].x, curve[lo + 1].x) + r * lerp(normals[lo].x, normals[lo + 1].x),
+      y: lerp(curve[lo].y, curve[lo + 1].y) + r * lerp(normals[lo].y, normals[lo + 1].y)
+    };
+  };
+
+  const frameCount = Math.round(duration * fps) + 1;
+  const time = (frame: number) => frame / fps;
+  const contraction = (frame: number) => contractionAt(time(frame) / duration);
+
+  // Arc position every curve sample has moved to, integrated outwards from the fixed apex
+  const deformedArc = (frame: number): Float64Array => {
+    const shortening = (settings.gls * contraction(frame)) / 100;
+    const out = new Float64Array(CURVE_SAMPLES);
+    out[apexIndex] = arc[apexIndex];
+    for (let i = apexIndex + 1; i <= last; i++) {
+      out[i] = out[i - 1] + (arc[i] - arc[i - 1]) * (1 + shortening * (factors[i] + factors[i - 1]) / 2);
+    }
+    for (let i = apexIndex - 1; i >= 0; i--) {
+      out[i] = out[i + 1] - (arc[i + 1] - arc[i]) * (1 + shortening * (factors[i] + factors[i + 1]) / 2);
+    }
+    return out;
+  };
+
+  // Material points are addressed by their fractional curve sample and wall offset
+  const materialPosition = (deformed: Float64Array, sample: number, r: number): Vector2 => {
+    const i = Math.min(last - 1, Math.floor(sample));
+    return positionAtArc(deformed[i] + (deformed[i + 1] - deformed[i]) * (sample - i), r);
+  };
+
+  const random = createRandom(settings.seed);
+  const scatterers = Array.from({ length: Math.round(arc[last] * WALL_THICKNESS * SCATTER_DENSITY) }, () => ({
+    sample: sampleAtArc(random() * arc[last]),
+    r: (random() - 0.5) * WALL_THICKNESS,
+    amplitude: 20 + random() * 80
+  }));
+
+  const seeds = (['endo', 'mid'] as const).flatMap(layer => Array.from({ length: SEEDS_PER_LAYER }, (_, k) => ({
+    id: `phantom-${layer}-${k}`,
+    sample: sampleAtArc(arc[last] * (0.02 + (0.96 * k) / (SEEDS_PER_LAYER - 1))),
+    r: layer === 'endo' ? -(WALL_THICKNESS / 2 - 2) : 0
+  })));
+  const rest = deformedArc(0);
+  const seedPoints: TrackingPoint[] = seeds.map(seed => {
+    const initial = materialPosition(rest, seed.sample, seed.r);
+    return {
+      id: seed.id,
+      initial,
+      current: initial,
+      velocity: { x: 0, y: 0 },
+      strain: 0,
+      peakStrain: 0,
+      segment: null,
+      quality: 1,
+      lowQuality: false
+    };
+  });
+
+  const truePositions = (frame: number) => {
+    const deformed = deformedArc(frame);
+    return new Map(seeds.map(seed => [seed.id, materialPosition(deformed, seed.sample, seed.r)]));
+  };
+
+  const renderFrame = (frame: number): Uint8ClampedArray => {
+    const deformed = deformedArc(frame);
+    const image = new Float32Array(width * height);
+    const radius = Math.ceil(3 * SPECKLE_SIGMA);
+    scatterers.forEach(sc => {
+      const p = materialPosition(deformed, sc.sample, sc.r);
+      for (let y = Math.round(p.y) - radius; y <= Math.round(p.y) + radius; y++) {
+        for (let x = Math.round(p.x) - radius; x <= Math.round(p.x) + radius; x++) {
+          if (x < 0 || y < 0 || x >= width || y >= height) continue;
+          image[y * width + x] += sc.amplitude * Math.exp(-((x - p.x) ** 2 + (y - p.y) ** 2) / (2 * SPECKLE_SIGMA ** 2));
+        }
+      }
+    });
+
+    const gain = 1 + settings.gainChange * (frameCount > 1 ? frame / (frameCount - 1) : 0);
+    const noise = createRandom(settings.seed * 7919 + frame + 1);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < image.length; i++) {
+      const value = image[i] * gain + (settings.noise > 0 ? settings.noise * gaussian(noise) : 0);
+      rgba[4 * i] = rgba[4 * i + 1] = rgba[4 * i + 2] = value;
+      rgba[4 * i + 3] = 255;
+    }
+    return rgba;
+  };
+
+  return {
+    settings,
+    view,
+    roi,
+    frameCount,
+    esFrame: Math.round(END_SYSTOLE * duration * fps),
+    seedPoints,
+    time,
+    prescribedStrain: frame => settings.gls * contraction(frame),
+    truePositions,
+    renderFrame
+  };
+};
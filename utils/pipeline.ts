@@ -0,0 +1,118 @@
+import { GrayImage, TrackingPoint, WallPolylines, FrameContext, FrameOutput, ViewId, ROI, Chamber } from '../types';
+import { toGrayscale, enhanceContrast, autoDetectWalls, trackPoint, forwardBackwardScore, createDiagnosticMask } from './motion';
+import { assignSegments, getLongAxis, getAtrialAxis } from './segments';
+import { buildWallPolylines, computeContourStrain, EMPTY_WALLS } from './strain';
+import { buildRingPolylines, computeShortAxisStrain } from './shortAxis';
+import { isShortAxis } from './views';
+
+export interface TrackerState {
+  prev: GrayImage | null;
+  points: TrackingPoint[];
+  walls: WallPolylines;
+}
+
+export const createTrackerState = (): TrackerState => ({ prev: null, points: [], walls: EMPTY_WALLS });
+
+// A point placed on the first frame starts with no motion history
+export const resetPoint = (pt: TrackingPoint): TrackingPoint => ({
+  ...pt, current: pt.initial, velocity: { x: 0, y: 0 }, strain: 0, peakStrain: 0, quality: 1, lowQuality: false
+});
+
+// Segments and wall traces for a freshly placed point set: long-axis bins on apical and RV views,
+// closed rings around the fitted centre on short-axis views. Atrial points have no AHA segment
+// and are traced from one side of the mitral annulus over the roof to the other.
+export const layoutPoints = (
+  view: ViewId,
+  points: TrackingPoint[],
+  roi: ROI,
+  chamber: Chamber = 'ventricle'
+): { points: TrackingPoint[], walls: WallPolylines } => {
+  if (chamber === 'atrium') {
+    const unassigned = points.map(p => ({ ...p, segment: null }));
+    return { points: unassigned, walls: buildWallPolylines(unassigned, getAtrialAxis(roi)) };
+  }
+  if (isShortAxis(view)) return { points: points.map(p => ({ ...p, segment: null })), walls: buildRingPolylines(points) };
+  const axis = getLongAxis(roi);
+  const assigned = assignSegments(view, points, axis);
+  return { points: assigned, walls: buildWallPolylines(assigned, axis) };
+};
+
+// Strain of one frame from the current positions: longitudinal along the wall traces on apical
+// views, circumferential / radial / rotation on short-axis views
+export const measureFrame = (view: ViewId, points: TrackingPoint[], walls: WallPolylines, settings: FrameContext['settings']) => {
+  const strainPoints = settings.excludeLowQuality ? points.filter(p => !p.lowQuality) : points;
+  if (isShortAxis(view)) {
+    const sax = computeShortAxisStrain(strainPoints, walls);
+    const measured = points.map(pt => {
+      const values = sax.points.get(pt.id);
+      const strain = values?.circumferential ?? 0;
+      return { ...pt, strain, peakStrain: Math.min(pt.peakStrain, strain), radialStrain: values?.radial ?? 0, rotation: values?.rotation ?? 0 };
+    });
+    return { points: measured, strain: sax.circumferential, midwall: null, segments: {}, shortAxis: { radial: sax.radial, rotation: sax.rotation } };
+  }
+
+  // Longitudinal strain along the endocardial trace; mid-wall points fall back to their own layer
+  const endo = computeContourStrain(strainPoints, walls.endocardium);
+  const mid = computeContourStrain(strainPoints, walls.midwall);
+  const measured = points.map(pt => {
+    const strain = endo.pointStrain.get(pt.id) ?? mid.pointStrain.get(pt.id) ?? 0;
+    return { ...pt, strain, peakStrain: Math.min(pt.peakStrain, strain) };
+  });
+  return {
+    points: measured,
+    strain: endo.global,
+    midwall: walls.midwall.length > 0 ? mid.global : null,
+    segments: endo.segments,
+    shortAxis: null
+  };
+};
+
+// One step of the motion engine: contrast stretch, detect (first frame) or track the points,
+// then longitudinal strain along the wall traces and the diagnostic edge mask.
+export const analyzeFrame = (
+  state: TrackerState,
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  context: FrameContext
+): { state: TrackerState, output: FrameOutput } => {
+  const { view, roi, settings, fps } = context;
+  const curr = toGrayscale(rgba, width, height);
+  enhanceContrast(curr.data);
+
+  let points = state.points;
+  let walls = state.walls;
+
+  if (points.length === 0 || !state.prev) {
+    const detected = context.seedPoints && context.seedPoints.length > 0
+      ? context.seedPoints.map(resetPoint)
+      : autoDetectWalls(curr, roi);
+    ({ points, walls } = layoutPoints(view, detected, roi || { x: 0, y: 0, w: width, h: height }, context.chamber));
+  } else {
+    const prev = state.prev;
+    points = points.map(pt => {
+      const { position: nextPos, quality: matchQuality } = trackPoint(prev, curr, pt.current, settings);
+      const quality = settings.forwardBackward
+        ? Math.min(matchQuality, forwardBackwardScore(prev, curr, pt.current, nextPos, settings))
+        : matchQuality;
+      const velocity = { x: (nextPos.x - pt.current.x) * fps, y: (nextPos.y - pt.current.y) * fps };
+      return { ...pt, current: nextPos, velocity, quality, lowQuality: pt.lowQuality || quality < settings.minQuality };
+    });
+  }
+
+  const measured = measureFrame(view, points, walls, settings);
+  points = measured.points;
+
+  return {
+    state: { prev: curr, points, walls },
+    output: {
+      points,
+      walls,
+      gls: measured.strain,
+      midwallGls: measured.midwall,
+      segments: measured.segments,
+      shortAxis: measured.shortAxis,
+      mask: createDiagnosticMask(curr, measured.strain, roi)
+    }
+  };
+};
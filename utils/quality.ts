@@ -0,0 +1,158 @@
+import {
+  ViewAnalysis, ROI, TrackingSettings, TrackingPoint, TrackedPosition, CardiacBeat, FrameSample,
+  PointQuality, SegmentQuality, TrackingQuality, SegmentStatus, Vector2
+} from '../types';
+import { computeContourStrain, strainOverSegments } from './strain';
+import { framePoints } from './trajectory';
+import { cycleBounds } from './cycles';
+import { formatLength } from './calibration';
+
+const DRIFT_LIMIT = 0.05; // fraction of the ROI height (long-axis length)
+const MIN_SMOOTHNESS = 0.6;
+const MAX_BAD_POINT_FRACTION = 0.5; // share of a segment's points that may leave the ROI or cross
+const ROI_MARGIN = 0.1; // fraction of the ROI size tolerated outside it
+
+const dist = (a: Vector2, b: Vector2) => Math.hypot(a.x - b.x, a.y - b.y);
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const positionsAt = (sample: FrameSample): Map<string, TrackedPosition> => new Map(sample.points.map(p => [p.id, p]));
+
+// Scores every point on the wall traces and rolls the scores up per segment
+export const assessTracking = (
+  view: ViewAnalysis,
+  beats: CardiacBeat[],
+  roi: ROI | null,
+  settings: TrackingSettings
+): TrackingQuality => {
+  const { history, walls, points } = view;
+  const empty: TrackingQuality = { points: [], segments: {}, excluded: [], note: null };
+  if (history.length < 2 || walls.endocardium.length === 0) return empty;
+
+  const byId = new Map(points.map(p => [p.id, p]));
+  const frames = history.map(positionsAt);
+  const bounds = cycleBounds(history, beats);
+  const driftLimit = (roi ? roi.h : 0) * DRIFT_LIMIT;
+
+  const inRoi = (p: Vector2) => !roi || (
+    p.x >= roi.x - roi.w * ROI_MARGIN && p.x <= roi.x + roi.w * (1 + ROI_MARGIN) &&
+    p.y >= roi.y - roi.h * ROI_MARGIN && p.y <= roi.y + roi.h * (1 + ROI_MARGIN)
+  );
+
+  const scored = new Map<string, PointQuality>();
+  [walls.endocardium, walls.midwall].forEach(trace => {
+    const chain = trace.map(id => byId.get(id)).filter((p): p is TrackingPoint => !!p);
+    chain.forEach((pt, k) => {
+      if (scored.has(pt.id)) return;
+      const neighbours = [chain[k - 1], chain[k + 1]].filter((n): n is TrackingPoint => !!n);
+      const spacing = mean(neighbours.map(n => dist(n.initial, pt.initial))) || 1;
+
+      // Return-to-origin drift: distance between the start and the end of each cycle
+      const drift = mean(bounds.map(([from, to]) => {
+        const a = frames[from].get(pt.id);
+        const b = frames[to].get(pt.id);
+        return a && b ? dist(a, b) : 0;
+      }));
+
+      let quality = 0, qualityCount = 0, deviation = 0, deviationCount = 0;
+      let leftRoi = false, crossed = false;
+      frames.forEach((frame, i) => {
+        const pos = frame.get(pt.id);
+        if (!pos) return;
+        if (i > 0) {
+          quality += pos.quality;
+          qualityCount++;
+        }
+        if (!inRoi(pos)) leftRoi = true;
+
+        // Own displacement against the mean displacement of the neighbours on the trace
+        const moved = neighbours.map(n => ({ n, pos: frame.get(n.id) })).filter(m => !!m.pos);
+        if (moved.length > 0) {
+          const nx = mean(moved.map(m => m.pos!.x - m.n.initial.x));
+          const ny = mean(moved.map(m => m.pos!.y - m.n.initial.y));
+          deviation += Math.min(1, Math.hypot(pos.x - pt.initial.x - nx, pos.y - pt.initial.y - ny) / spacing);
+          deviationCount++;
+        }
+
+        // The edge to the next point reverses when the two swap places along the trace
+        const next = chain[k + 1];
+        const nextPos = next ? frame.get(next.id) : undefined;
+        if (next && nextPos) {
+          const ref = { x: next.initial.x - pt.initial.x, y: next.initial.y - pt.initial.y };
+          if (ref.x * (nextPos.x - pos.x) + ref.y * (nextPos.y - pos.y) < 0) crossed = true;
+        }
+      });
+
+      scored.set(pt.id, {
+        id: pt.id,
+        segment: pt.segment,
+        drift,
+        correlation: qualityCount > 0 ? quality / qualityCount : 1,
+        smoothness: 1 - (deviationCount > 0 ? deviation / deviationCount : 0),
+        leftRoi,
+        crossed
+      });
+    });
+  });
+
+  const pointScores = [...scored.values()];
+  const segments: { [segment: number]: SegmentQuality } = {};
+  const bySegment = new Map<number, PointQuality[]>();
+  pointScores.forEach(p => {
+    if (p.segment === null) return;
+    bySegment.set(p.segment, [...(bySegment.get(p.segment) || []), p]);
+  });
+
+  bySegment.forEach((members, segment) => {
+    const drift = mean(members.map(p => p.drift));
+    const correlation = mean(members.map(p => p.correlation));
+    const smoothness = mean(members.map(p => p.smoothness));
+    const outside = members.filter(p => p.leftRoi).length / members.length;
+    const crossing = members.filter(p => p.crossed).length / members.length;
+
+    const reasons: string[] = [];
+    if (driftLimit > 0 && drift > driftLimit) {
+      reasons.push(`drift ${formatLength(drift, view.calibration)} > ${formatLength(driftLimit, view.calibration)}`);
+    }
+    if (correlation < settings.minQuality) reasons.push(`match quality ${correlation.toFixed(2)} < ${settings.minQuality.toFixed(2)}`);
+    if (smoothness < MIN_SMOOTHNESS) reasons.push(`irregular motion (smoothness ${smoothness.toFixed(2)})`);
+    if (outside > MAX_BAD_POINT_FRACTION) reasons.push('points left the ROI');
+    if (crossing > MAX_BAD_POINT_FRACTION) reasons.push('points crossed along the wall');
+
+    segments[segment] = { segment, drift, correlation, smoothness, reliable: reasons.length === 0, reasons };
+  });
+
+  const endoSegments = new Set(walls.endocardium.map(id => byId.get(id)?.segment).filter((s): s is number => s !== null && s !== undefined));
+  const unreliable = [...endoSegments].filter(seg => segments[seg] && !segments[seg].reliable);
+  const allUnreliable = unreliable.length === endoSegments.size;
+
+  return {
+    points: pointScores,
+    segments,
+    excluded: allUnreliable ? [] : unreliable.sort((a, b) => a - b),
+    note: allUnreliable && unreliable.length > 0 ? 'Every segment failed QC; GLS is reported uncorrected and should be repeated.' : null
+  };
+};
+
+// Recomputes the GLS curve over the segments that passed QC, mirroring the live pipeline
+// (including the optional drop of points once they fall below the quality threshold)
+export const excludeUnreliableSegments = (view: ViewAnalysis, quality: TrackingQuality, settings: TrackingSettings): FrameSample[] => {
+  if (quality.excluded.length === 0) return view.history;
+  const kept = [...new Set(view.points.map(p => p.segment))]
+    .filter((s): s is number => s !== null && !quality.excluded.includes(s));
+  const lowQuality = new Set<string>();
+
+  return view.history.map(sample => {
+    const contour = computeContourStrain(framePoints(view.points, sample, lowQuality, settings), view.walls.endocardium);
+    return { ...sample, strain: strainOverSegments(contour, kept) };
+  });
+};
+
+// Bull's-eye status across views: a segment is acceptable when any view covering it passed QC
+export const combineSegmentQuality = (views: ViewAnalysis[]): (SegmentStatus | null)[] => {
+  return Array.from({ length: 17 }).map((_, seg) => {
+    const covering = views.map(v => v.quality?.segments[seg]).filter((q): q is SegmentQuality => !!q);
+    if (covering.length === 0) return null;
+    const reliable = covering.some(q => q.reliable);
+    return { reliable, reasons: reliable ? [] : [...new Set(covering.flatMap(q => q.reasons))] };
+  });
+};
@@ -0,0 +1,572 @@
+import { AnalysisResult, DicomIdentity, StrainRatePeaks, ViewAnalysis, ViewId } from '../types';
+import { AHA_SEGMENT_NAMES } from './segments';
+import { VIEW_IDS, VIEW_LABELS, getViewDefinition, isShortAxis, isRightVentricle } from './views';
+
+export const REPORT_FORMAT = 'cardiastrain-report';
+export const REPORT_VERSION = 1;
+
+// Rendered chart markup captured from the UI; missing charts are left out of the report
+export interface ReportCharts {
+  bullsEye: string | null;
+  strain: { [key in ViewId]?: string | null };
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const processedViews = (analysis: AnalysisResult): [ViewId, ViewAnalysis][] =>
+  VIEW_IDS.map(id => [id, analysis.views[id]] as [ViewId, ViewAnalysis]).filter(([, v]) => v && v.history.length > 0);
+
+const isApical = (id: ViewId) => getViewDefinition(id).kind === 'apical';
+
+const roundOrNull = (value: number | null, digits = 2) => (value !== null ? round(value, digits) : null);
+
+const strainRateJson = (peaks: StrainRatePeaks | null) =>
+  (peaks ? { srs: round(peaks.srs), sre: roundOrNull(peaks.sre), sra: roundOrNull(peaks.sra) } : null);
+
+const heartRateSource = (analysis: AnalysisResult) =>
+  analysis.hrManual ? 'manual' : analysis.hrEstimate ? analysis.hrEstimate.method : null;
+
+// Plain JSON copy of the result; images, masks and tracked points stay behind
+export const buildReportJson = (analysis: AnalysisResult) => ({
+  format: REPORT_FORMAT,
+  version: REPORT_VERSION,
+  generatedAt: new Date().toISOString(),
+  analysedAt: new Date(analysis.timestamp).toISOString(),
+  lv: {
+    ef: round(analysis.biplaneEf, 1),
+    volumes: analysis.volumes,
+    beatVolumes: analysis.beatVolumes
+  },
+  heartRate: {
+    bpm: analysis.hr > 0 ? round(analysis.hr, 1) : null,
+    source: heartRateSource(analysis),
+    confidence: analysis.hrEstimate && !analysis.hrManual ? round(analysis.hrEstimate.confidence) : null,
+    rrVariabilityMs: analysis.hrEstimate?.rrVariability ?? null
+  },
+  tracking: analysis.tracking,
+  gls: analysis.gls !== null ? round(analysis.gls) : null,
+  strainRate: strainRateJson(analysis.strainRate ?? null),
+  shortAxis: analysis.shortAxis ? {
+    levels: analysis.shortAxis.levels.map(l => ({ view: l.view, level: l.level, gcs: round(l.gcs), grs: round(l.grs), rotation: round(l.rotation) })),
+    twist: analysis.shortAxis.twist !== null ? round(analysis.shortAxis.twist) : null,
+    torsionPerCm: analysis.shortAxis.torsion !== null ? round(analysis.shortAxis.torsion) : null
+  } : null,
+  rightVentricle: analysis.rightVentricle ? {
+    fourChamberStrain: round(analysis.rightVentricle.fourChamberStrain),
+    freeWallStrain: round(analysis.rightVentricle.freeWallStrain),
+    septalStrain: round(analysis.rightVentricle.septalStrain),
+    eda: round(analysis.rightVentricle.eda),
+    esa: round(analysis.rightVentricle.esa),
+    areaUnit: analysis.rightVentricle.areaUnit,
+    fac: analysis.rightVentricle.fac !== null ? round(analysis.rightVentricle.fac, 1) : null,
+    tapse: analysis.rightVentricle.tapse !== null ? round(analysis.rightVentricle.tapse, 1) : null,
+    tapseUnit: analysis.rightVentricle.tapseUnit
+  } : null,
+  leftAtrium: analysis.leftAtrium ? {
+    reservoir: round(analysis.leftAtrium.reservoir),
+    conduit: round(analysis.leftAtrium.conduit),
+    contraction: roundOrNull(analysis.leftAtrium.contraction),
+    views: analysis.leftAtrium.views.map(v => ({
+      view: v.view, cycles: v.cycles, reservoir: round(v.reservoir), conduit: round(v.conduit), contraction: roundOrNull(v.contraction)
+    })),
+    volumes: analysis.leftAtrium.volumes ? {
+      method: analysis.leftAtrium.volumes.method,
+      unit: analysis.leftAtrium.volumes.unit,
+      max: round(analysis.leftAtrium.volumes.max, 1),
+      min: round(analysis.leftAtrium.volumes.min, 1),
+      emptyingFraction: round(analysis.leftAtrium.volumes.emptyingFraction, 1)
+    } : null
+  } : null,
+  views: Object.fromEntries(processedViews(analysis).map(([id, v]) => [id, {
+    strainType: isShortAxis(id) ? 'circumferential' : 'longitudinal',
+    gls: round(v.gls),
+    midwallGls: v.midwallGls !== null ? round(v.midwallGls) : null,
+    ef: round(v.ef, 1),
+    strainRate: strainRateJson(v.strainRate ?? null),
+    mmPerPixel: v.calibration ? v.calibration.mmPerPixel : null,
+    beats: v.beats.map(b => ({
+      edTime: round(b.edTime, 3), esTime: round(b.esTime, 3), endTime: round(b.endTime, 3),
+      complete: b.complete, gls: round(b.gls), ef: b.ef !== null ? round(b.ef, 1) : null
+    })),
+    strainCurve: v.history.map(s => ({ time: round(s.time, 3), strain: round(s.strain) })),
+    atrialStrainCurve: v.atrium ? v.atrium.history.map(s => ({ time: round(s.time, 3), strain: round(s.strain) })) : null,
+    excludedSegments: v.quality ? v.quality.excluded.map(seg => seg + 1) : [],
+    qualityNote: v.quality?.note ?? null,
+    segmentCurves: Object.fromEntries(Object.entries(v.segmentCurves).map(([seg, curve]) => [
+      Number(seg) + 1, curve.map(s => ({ time: round(s.time, 3), strain: round(s.strain) }))
+    ]))
+  }])),
+  segments: analysis.segments.detailed.map((value, i) => ({
+    segment: i + 1,
+    name: AHA_SEGMENT_NAMES[i],
+    strain: value !== null ? round(value) : null,
+    reliable: analysis.segments.quality?.[i]?.reliable ?? null,
+    reasons: analysis.segments.quality?.[i]?.reasons ?? [],
+    timeToPeakMs: roundOrNull(analysis.timing?.timeToPeak[i] ?? null, 0),
+    postSystolicIndex: roundOrNull(analysis.timing?.postSystolicIndex[i] ?? null, 1)
+  })),
+  myocardialWork: analysis.work ? {
+    gwi: round(analysis.work.gwi, 0),
+    gcw: round(analysis.work.gcw, 0),
+    gww: round(analysis.work.gww, 0),
+    gwe: round(analysis.work.gwe, 1),
+    unit: 'mmHg%',
+    bloodPressure: analysis.work.bloodPressure,
+    valvesMs: { ...analysis.work.valves, manual: analysis.work.valvesManual },
+    segments: analysis.work.segments.workIndex.map((value, i) => ({
+      segment: i + 1,
+      workIndex: roundOrNull(value, 0),
+      constructive: roundOrNull(analysis.work!.segments.constructive[i], 0),
+      wasted: roundOrNull(analysis.work!.segments.wasted[i], 0),
+      efficiency: roundOrNull(analysis.work!.segments.efficiency[i], 1)
+    })),
+    pressureCurve: analysis.work.pressure.map(p => ({ time: round(p.time, 3), pressure: round(p.value, 1) }))
+  } : null,
+  mechanicalDispersion: analysis.timing ? {
+    sdMs: roundOrNull(analysis.timing.dispersion, 1),
+    endSystoleMs: roundOrNull(analysis.timing.endSystole, 0)
+  } : null
+});
+
+// --- DICOM Comprehensive SR in the DICOM JSON model (PS3.18 Annex F) ---
+
+export type DicomJsonAttribute = { vr: string; Value?: unknown[] };
+export type DicomJsonDataset = { [tag: string]: DicomJsonAttribute };
+type Code = [value: string, scheme: string, meaning: string];
+
+const COMPREHENSIVE_SR = '1.2.840.10008.5.1.4.1.1.88.33';
+const LOCAL_SCHEME = '99CSTRAIN'; // private codes for measurements without a standard concept
+
+const CODES: { [key: string]: Code } = {
+  title: ['125200', 'DCM', 'Adult Echocardiography Procedure Report'],
+  ef: ['10230-1', 'LN', 'Left ventricular Ejection fraction'],
+  heartRate: ['8867-4', 'LN', 'Heart rate'],
+  edv: ['EDV', LOCAL_SCHEME, 'Left ventricular end-diastolic volume'],
+  esv: ['ESV', LOCAL_SCHEME, 'Left ventricular end-systolic volume'],
+  sv: ['SV', LOCAL_SCHEME, 'Left ventricular stroke volume'],
+  gls: ['GLS', LOCAL_SCHEME, 'Global longitudinal strain'],
+  midwallGls: ['MWGLS', LOCAL_SCHEME, 'Mid-wall global longitudinal strain'],
+  gcs: ['GCS', LOCAL_SCHEME, 'Global circumferential strain'],
+  grs: ['GRS', LOCAL_SCHEME, 'Global radial strain'],
+  rotation: ['ROT', LOCAL_SCHEME, 'Left ventricular rotation'],
+  twist: ['TWIST', LOCAL_SCHEME, 'Left ventricular twist'],
+  torsion: ['TORSION', LOCAL_SCHEME, 'Left ventricular torsion'],
+  segments: ['SEGSTRAIN', LOCAL_SCHEME, 'Segmental longitudinal strain'],
+  rightVentricle: ['RV', LOCAL_SCHEME, 'Right ventricle'],
+  rv4ch: ['RV4CHS', LOCAL_SCHEME, 'Right ventricular four-chamber longitudinal strain'],
+  rvFreeWall: ['RVFWS', LOCAL_SCHEME, 'Right ventricular free wall longitudinal strain'],
+  rvSeptum: ['RVSEPS', LOCAL_SCHEME, 'Right ventricular septal longitudinal strain'],
+  rvFac: ['RVFAC', LOCAL_SCHEME, 'Right ventricular fractional area change'],
+  rvEda: ['RVEDA', LOCAL_SCHEME, 'Right ventricular end-diastolic area'],
+  rvEsa: ['RVESA', LOCAL_SCHEME, 'Right ventricular end-systolic area'],
+  tapse: ['TAPSE', LOCAL_SCHEME, 'Tricuspid annular plane systolic excursion'],
+  leftAtrium: ['LA', LOCAL_SCHEME, 'Left atrium'],
+  laReservoir: ['LASR', LOCAL_SCHEME, 'Left atrial reservoir strain'],
+  laConduit: ['LASCD', LOCAL_SCHEME, 'Left atrial conduit strain'],
+  laContraction: ['LASCT', LOCAL_SCHEME, 'Left atrial contraction strain'],
+  laMax: ['LAVMAX', LOCAL_SCHEME, 'Left atrial maximum volume'],
+  laMin: ['LAVMIN', LOCAL_SCHEME, 'Left atrial minimum volume'],
+  laEf: ['LAEF', LOCAL_SCHEME, 'Left atrial emptying fraction'],
+  work: ['MW', LOCAL_SCHEME, 'Left ventricular myocardial work'],
+  gwi: ['GWI', LOCAL_SCHEME, 'Global work index'],
+  gcw: ['GCW', LOCAL_SCHEME, 'Global constructive work'],
+  gww: ['GWW', LOCAL_SCHEME, 'Global wasted work'],
+  gwe: ['GWE', LOCAL_SCHEME, 'Global work efficiency'],
+  dispersion: ['MD', LOCAL_SCHEME, 'Left ventricular mechanical dispersion'],
+  srs: ['SRS', LOCAL_SCHEME, 'Peak systolic longitudinal strain rate'],
+  sre: ['SRE', LOCAL_SCHEME, 'Peak early diastolic longitudinal strain rate'],
+  sra: ['SRA', LOCAL_SCHEME, 'Peak late diastolic longitudinal strain rate'],
+  percent: ['%', 'UCUM', 'percent'],
+  ml: ['ml', 'UCUM', 'milliliter'],
+  perMinute: ['/min', 'UCUM', 'per minute'],
+  degree: ['deg', 'UCUM', 'degree'],
+  degreePerCm: ['deg/cm', 'UCUM', 'degree per centimeter'],
+  mm: ['mm', 'UCUM', 'millimeter'],
+  cm2: ['cm2', 'UCUM', 'square centimeter'],
+  perSecond: ['/s', 'UCUM', 'per second'],
+  ms: ['ms', 'UCUM', 'millisecond'],
+  mmHgPercent: ['mm[Hg].%', 'UCUM', 'millimeter of mercury percent']
+};
+
+const attr = (vr: string, ...values: unknown[]): DicomJsonAttribute => (values.length > 0 ? { vr, Value: values } : { vr });
+
+const codeItem = ([value, scheme, meaning]: Code): DicomJsonDataset => ({
+  '00080100': attr('SH', value),
+  '00080102': attr('SH', scheme),
+  '00080104': attr('LO', meaning)
+});
+
+const numItem = (name: Code, value: number, unit: Code): DicomJsonDataset => ({
+  '0040A010': attr('CS', 'CONTAINS'),
+  '0040A040': attr('CS', 'NUM'),
+  '0040A043': attr('SQ', codeItem(name)),
+  '0040A300': attr('SQ', {
+    '0040A30A': attr('DS', round(value)),
+    '004008EA': attr('SQ', codeItem(unit))
+  })
+});
+
+const strainRateItems = (peaks: StrainRatePeaks | null | undefined): DicomJsonDataset[] => {
+  if (!peaks) return [];
+  const items = [numItem(CODES.srs, peaks.srs, CODES.perSecond)];
+  if (peaks.sre !== null) items.push(numItem(CODES.sre, peaks.sre, CODES.perSecond));
+  if (peaks.sra !== null) items.push(numItem(CODES.sra, peaks.sra, CODES.perSecond));
+  return items;
+};
+
+const containerItem = (name: Code, content: DicomJsonDataset[]): DicomJsonDataset => ({
+  '0040A010': attr('CS', 'CONTAINS'),
+  '0040A040': attr('CS', 'CONTAINER'),
+  '0040A043': attr('SQ', codeItem(name)),
+  '0040A050': attr('CS', 'SEPARATE'),
+  '0040A730': attr('SQ', ...content)
+});
+
+// UUID-derived UID under the 2.25 root
+const createUid = () => {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+  return `2.25.${BigInt(`0x${hex}`).toString()}`;
+};
+
+const dicomDate = (d: Date) => `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+const dicomTime = (d: Date) => `${String(d.getHours()).padStart(2, '0')}${String(d.getMinutes()).padStart(2, '0')}${String(d.getSeconds()).padStart(2, '0')}`;
+
+export class DicomSrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DicomSrError';
+  }
+}
+
+// The SR is filed into the study of the analysed DICOM clips, so every processed view has to come
+// from one and they have to agree on patient and study. Returns why not, or null when they do.
+export const dicomSrProblem = (analysis: AnalysisResult): string | null => {
+  const views = processedViews(analysis).map(([id]) => id);
+  if (views.length === 0) return 'No view has been analysed';
+  const missing = views.filter(id => !analysis.sources?.[id]?.studyInstanceUid);
+  if (missing.length > 0) {
+    return `${missing.map(id => VIEW_LABELS[id]).join(', ')} ${missing.length > 1 ? 'were' : 'was'} not analysed from a DICOM clip with a Study Instance UID`;
+  }
+  const sources = views.map(id => analysis.sources[id]!);
+  if (new Set(sources.map(s => s.studyInstanceUid)).size > 1) return 'The analysed clips come from different studies';
+  if (sources.some(s => !s.patientId)) return 'The analysed clips carry no Patient ID';
+  if (new Set(sources.map(s => s.patientId)).size > 1) return 'The analysed clips belong to different patients';
+  return null;
+};
+
+const text = (vr: string, value: string | null) => (value ? attr(vr, value) : attr(vr));
+const personName = (value: string | null) => (value ? attr('PN', { Alphabetic: value }) : attr('PN'));
+
+// Current Requested Procedure Evidence: the source instances, grouped by series
+const evidenceSequence = (studyUid: string, sources: DicomIdentity[]): DicomJsonDataset => {
+  const series = new Map<string, DicomIdentity[]>();
+  sources.filter(s => s.seriesInstanceUid && s.sopClassUid && s.sopInstanceUid).forEach(s => {
+    series.set(s.seriesInstanceUid!, [...(series.get(s.seriesInstanceUid!) ?? []), s]);
+  });
+  return {
+    '0020000D': attr('UI', studyUid),
+    '00081115': attr('SQ', ...[...series].map(([uid, instances]) => ({
+      '0020000E': attr('UI', uid),
+      '00081199': attr('SQ', ...instances
+        .filter((s, i) => instances.findIndex(o => o.sopInstanceUid === s.sopInstanceUid) === i)
+        .map(s => ({ '00081150': attr('UI', s.sopClassUid), '00081155': attr('UI', s.sopInstanceUid) })))
+    })))
+  };
+};
+
+// Throws DicomSrError when the SR could not be filed with the echo it measures
+export const buildDicomSr = (analysis: AnalysisResult): DicomJsonDataset => {
+  const problem = dicomSrProblem(analysis);
+  if (problem) throw new DicomSrError(problem);
+  const sources = processedViews(analysis).map(([id]) => analysis.sources[id]!);
+  const source = sources[0];
+  const now = new Date();
+  const content: DicomJsonDataset[] = [numItem(CODES.ef, analysis.biplaneEf, CODES.percent)];
+
+  // Volumes are only reportable in physical units
+  if (analysis.volumes && analysis.volumes.unit === 'mL') {
+    content.push(
+      numItem(CODES.edv, analysis.volumes.edv, CODES.ml),
+      numItem(CODES.esv, analysis.volumes.esv, CODES.ml),
+      numItem(CODES.sv, analysis.volumes.sv, CODES.ml)
+    );
+  }
+  if (analysis.hr > 0) content.push(numItem(CODES.heartRate, analysis.hr, CODES.perMinute));
+  if (analysis.gls !== null) content.push(numItem(CODES.gls, analysis.gls, CODES.percent));
+  content.push(...strainRateItems(analysis.strainRate));
+
+  processedViews(analysis).filter(([id]) => isApical(id)).forEach(([id, v]) => {
+    const items = [numItem(CODES.gls, v.gls, CODES.percent)];
+    if (v.midwallGls !== null) items.push(numItem(CODES.midwallGls, v.midwallGls, CODES.percent));
+    items.push(...strainRateItems(v.strainRate));
+    content.push(containerItem([id.toUpperCase(), LOCAL_SCHEME, VIEW_LABELS[id]], items));
+  });
+
+  if (analysis.shortAxis) {
+    analysis.shortAxis.levels.forEach(l => content.push(containerItem([l.view.toUpperCase(), LOCAL_SCHEME, VIEW_LABELS[l.view]], [
+      numItem(CODES.gcs, l.gcs, CODES.percent),
+      numItem(CODES.grs, l.grs, CODES.percent),
+      numItem(CODES.rotation, l.rotation, CODES.degree)
+    ])));
+    if (analysis.shortAxis.twist !== null) content.push(numItem(CODES.twist, analysis.shortAxis.twist, CODES.degree));
+    if (analysis.shortAxis.torsion !== null) content.push(numItem(CODES.torsion, analysis.shortAxis.torsion, CODES.degreePerCm));
+  }
+
+  // Areas and TAPSE follow the volumes: only reported once the view is calibrated
+  const rv = analysis.rightVentricle;
+  if (rv) {
+    const items = [
+      numItem(CODES.rv4ch, rv.fourChamberStrain, CODES.percent),
+      numItem(CODES.rvFreeWall, rv.freeWallStrain, CODES.percent),
+      numItem(CODES.rvSeptum, rv.septalStrain, CODES.percent)
+    ];
+    if (rv.fac !== null) items.push(numItem(CODES.rvFac, rv.fac, CODES.percent));
+    if (rv.areaUnit === 'cm²') items.push(numItem(CODES.rvEda, rv.eda, CODES.cm2), numItem(CODES.rvEsa, rv.esa, CODES.cm2));
+    if (rv.tapse !== null && rv.tapseUnit === 'mm') items.push(numItem(CODES.tapse, rv.tapse, CODES.mm));
+    content.push(containerItem(CODES.rightVentricle, items));
+  }
+
+  const la = analysis.leftAtrium;
+  if (la) {
+    const items = [numItem(CODES.laReservoir, la.reservoir, CODES.percent), numItem(CODES.laConduit, la.conduit, CODES.percent)];
+    if (la.contraction !== null) items.push(numItem(CODES.laContraction, la.contraction, CODES.percent));
+    if (la.volumes && la.volumes.unit === 'mL') {
+      items.push(
+        numItem(CODES.laMax, la.volumes.max, CODES.ml),
+        numItem(CODES.laMin, la.volumes.min, CODES.ml),
+        numItem(CODES.laEf, la.volumes.emptyingFraction, CODES.percent)
+      );
+    }
+    content.push(containerItem(CODES.leftAtrium, items));
+  }
+
+  const segmentItems = analysis.segments.detailed
+    .map((value, i) => (value !== null ? numItem([`SEG${i + 1}`, LOCAL_SCHEME, AHA_SEGMENT_NAMES[i]], value, CODES.percent) : null))
+    .filter((item): item is DicomJsonDataset => item !== null);
+  if (segmentItems.length > 0) content.push(containerItem(CODES.segments, segmentItems));
+  if (analysis.work) {
+    content.push(containerItem(CODES.work, [
+      numItem(CODES.gwi, analysis.work.gwi, CODES.mmHgPercent),
+      numItem(CODES.gcw, analysis.work.gcw, CODES.mmHgPercent),
+      numItem(CODES.gww, analysis.work.gww, CODES.mmHgPercent),
+      numItem(CODES.gwe, analysis.work.gwe, CODES.percent)
+    ]));
+  }
+  if (analysis.timing && analysis.timing.dispersion !== null) content.push(numItem(CODES.dispersion, analysis.timing.dispersion, CODES.ms));
+
+  return {
+    '00080016': attr('UI', COMPREHENSIVE_SR),
+    '00080018': attr('UI', createUid()),
+    '00080020': text('DA', source.studyDate),
+    '00080023': attr('DA', dicomDate(now)),
+    '00080030': text('TM', source.studyTime),
+    '00080033': attr('TM', dicomTime(now)),
+    '00080050': text('SH', source.accessionNumber),
+    '00080060': attr('CS', 'SR'),
+    '00080070': attr('LO', 'CardiaStrain'),
+    '00080090': personName(source.referringPhysician),
+    '00100010': personName(source.patientName),
+    '00100020': attr('LO', source.patientId),
+    '00100030': text('DA', source.patientBirthDate),
+    '00100040': text('CS', source.patientSex),
+    '0020000D': attr('UI', source.studyInstanceUid),
+    '0020000E': attr('UI', createUid()),
+    '00200010': text('SH', source.studyId),
+    '00200011': attr('IS', 1),
+    '00200013': attr('IS', 1),
+    '0040A375': attr('SQ', evidenceSequence(source.studyInstanceUid!, sources)),
+    '0040A491': attr('CS', 'COMPLETE'),
+    '0040A493': attr('CS', 'UNVERIFIED'),
+    '0040A040': attr('CS', 'CONTAINER'),
+    '0040A043': attr('SQ', codeItem(CODES.title)),
+    '0040A050': attr('CS', 'SEPARATE'),
+    '0040A730': attr('SQ', ...content)
+  };
+};
+
+// --- Printable report ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Tracking options that change the trajectories, in the order they are applied
+const describeProcessing = (tracking: AnalysisResult['tracking']): string => {
+  const steps = [
+    tracking.forwardBackward && 'forward-backward check',
+    tracking.driftCorrection && 'drift correction',
+    tracking.spatialSmoothing > 0 && `spatial smoothing ×${tracking.spatialSmoothing}`,
+    tracking.temporalWindow > 0 && `Savitzky–Golay ${tracking.temporalWindow} frames`
+  ].filter(Boolean);
+  return steps.length > 0 ? steps.join(', ') : 'none';
+};
+
+const formatPercent = (value: number | null, digits = 1) => (value !== null ? `${value.toFixed(digits)}%` : '—');
+
+const formatStrainRates = (peaks: StrainRatePeaks | null) =>
+  (peaks ? [peaks.srs, peaks.sre, peaks.sra].map(value => (value !== null ? value.toFixed(2) : '—')).join(' / ') + ' s⁻¹' : '—');
+
+// Self-contained HTML (inline styles and SVG) that prints to a one-page PDF from the browser
+export const buildReportHtml = (analysis: AnalysisResult, charts: ReportCharts): string => {
+  const views = processedViews(analysis).filter(([id]) => isApical(id));
+  const volumes = analysis.volumes;
+  const volumeUnit = volumes?.unit === 'mL' ? 'mL' : 'px³';
+  const hrSource = heartRateSource(analysis);
+
+  const volumeRows = volumes
+    ? `<tr><td>EDV</td><td>${volumes.edv.toFixed(1)} ${volumeUnit}</td></tr>
+       <tr><td>ESV</td><td>${volumes.esv.toFixed(1)} ${volumeUnit}</td></tr>
+       <tr><td>SV</td><td>${volumes.sv.toFixed(1)} ${volumeUnit}</td></tr>`
+    : '';
+
+  const viewSections = views.map(([id, v]) => `
+    <section class="view">
+      <h3>${VIEW_LABELS[id]}</h3>
+      <table>
+        <tr><td>GLS</td><td>${formatPercent(v.gls)}</td></tr>
+        <tr><td>Mid-wall GLS</td><td>${formatPercent(v.midwallGls)}</td></tr>
+        <tr><td>Single-plane EF</td><td>${formatPercent(v.ef)}</td></tr>
+        <tr><td>SRs / SRe / SRa</td><td>${formatStrainRates(v.strainRate ?? null)}</td></tr>
+        <tr><td>Beats</td><td>${v.beats.length}</td></tr>
+      </table>
+      ${v.quality && v.quality.excluded.length > 0
+        ? `<p class="meta">GLS excludes unreliable segments: ${v.quality.excluded.map(seg => escapeHtml(`${AHA_SEGMENT_NAMES[seg]} (${v.quality!.segments[seg].reasons.join('; ')})`)).join(', ')}</p>`
+        : ''}
+      ${v.quality?.note ? `<p class="meta">${escapeHtml(v.quality.note)}</p>` : ''}
+      ${charts.strain[id] ? `<div class="chart">${charts.strain[id]}</div>` : ''}
+    </section>`).join('');
+
+  const shortAxis = analysis.shortAxis;
+  const shortAxisSection = shortAxis ? `
+  <h2>Short-Axis Strain</h2>
+  <div class="grid">
+    <section><table>
+      <tr><td><b>Level</b></td><td><b>GCS</b></td><td><b>GRS</b></td><td><b>Rotation</b></td></tr>
+      ${shortAxis.levels.map(l => `<tr><td>${escapeHtml(VIEW_LABELS[l.view])}</td><td>${formatPercent(l.gcs)}</td><td>${formatPercent(l.grs)}</td><td>${l.rotation.toFixed(1)}°</td></tr>`).join('')}
+      <tr><td>LV twist</td><td></td><td></td><td>${shortAxis.twist !== null ? `${shortAxis.twist.toFixed(1)}°` : '—'}</td></tr>
+      <tr><td>LV torsion</td><td></td><td></td><td>${shortAxis.torsion !== null ? `${shortAxis.torsion.toFixed(2)}°/cm` : '—'}</td></tr>
+    </table></section>
+    ${shortAxis.levels.map(l => (charts.strain[l.view] ? `<section class="chart">${charts.strain[l.view]}</section>` : '')).join('')}
+  </div>` : '';
+
+  const rv = analysis.rightVentricle;
+  const rvView = VIEW_IDS.find(isRightVentricle);
+  const rightVentricleSection = rv ? `
+  <h2>Right Ventricle</h2>
+  <div class="grid">
+    <section><table>
+      <tr><td>RV free-wall strain</td><td>${formatPercent(rv.freeWallStrain)}</td></tr>
+      <tr><td>RV four-chamber strain</td><td>${formatPercent(rv.fourChamberStrain)}</td></tr>
+      <tr><td>Septal strain</td><td>${formatPercent(rv.septalStrain)}</td></tr>
+      <tr><td>Fractional area change</td><td>${formatPercent(rv.fac)}</td></tr>
+      <tr><td>ED / ES area</td><td>${rv.eda.toFixed(1)} / ${rv.esa.toFixed(1)} ${rv.areaUnit}</td></tr>
+      <tr><td>TAPSE</td><td>${rv.tapse !== null ? `${rv.tapse.toFixed(1)} ${rv.tapseUnit}` : '—'}</td></tr>
+    </table></section>
+    ${rvView && charts.strain[rvView] ? `<section class="chart">${charts.strain[rvView]}</section>` : ''}
+  </div>` : '';
+
+  const la = analysis.leftAtrium;
+  const leftAtriumSection = la ? `
+  <h2>Left Atrium</h2>
+  <div class="grid">
+    <section><table>
+      <tr><td><b>Strain (LV end-diastole = 0)</b></td>${la.views.map(v => `<td><b>${v.view.toUpperCase()}</b></td>`).join('')}<td><b>Mean</b></td></tr>
+      <tr><td>Reservoir</td>${la.views.map(v => `<td>${formatPercent(v.reservoir)}</td>`).join('')}<td>${formatPercent(la.reservoir)}</td></tr>
+      <tr><td>Conduit</td>${la.views.map(v => `<td>${formatPercent(v.conduit)}</td>`).join('')}<td>${formatPercent(la.conduit)}</td></tr>
+      <tr><td>Contraction</td>${la.views.map(v => `<td>${formatPercent(v.contraction)}</td>`).join('')}<td>${formatPercent(la.contraction)}</td></tr>
+    </table></section>
+    <section><table>
+      ${la.volumes
+        ? `<tr><td>LA volume max</td><td>${la.volumes.max.toFixed(1)} ${la.volumes.unit}</td></tr>
+           <tr><td>LA volume min</td><td>${la.volumes.min.toFixed(1)} ${la.volumes.unit}</td></tr>
+           <tr><td>LA emptying fraction</td><td>${formatPercent(la.volumes.emptyingFraction)}</td></tr>
+           <tr><td>Method</td><td>${la.volumes.method === 'biplane' ? 'Biplane disks' : 'Single-plane area-length'}</td></tr>`
+        : '<tr><td>LA volume</td><td>—</td></tr>'}
+    </table></section>
+  </div>` : '';
+
+  const qcLabel = (i: number) => {
+    const status = analysis.segments.quality?.[i];
+    if (!status) return '';
+    return status.reliable ? 'Acceptable' : `<span class="warn" title="${escapeHtml(status.reasons.join('; '))}">Unreliable</span>`;
+  };
+
+  const work = analysis.work ?? null;
+  const workSection = work ? `
+  <h2>Myocardial Work</h2>
+  <table>
+    <tr><td>Global work index</td><td>${work.gwi.toFixed(0)} mmHg%</td></tr>
+    <tr><td>Global constructive work</td><td>${work.gcw.toFixed(0)} mmHg%</td></tr>
+    <tr><td>Global wasted work</td><td>${work.gww.toFixed(0)} mmHg%</td></tr>
+    <tr><td>Global work efficiency</td><td>${formatPercent(work.gwe, 0)}</td></tr>
+  </table>
+  <p class="meta">LV pressure estimated from a reference waveform scaled to a cuff pressure of ${work.bloodPressure.systolic}/${work.bloodPressure.diastolic} mmHg; valve events ${work.valvesManual ? 'marked on the clip' : 'estimated from the beats'} (AVO ${work.valves.avo.toFixed(0)}, AVC ${work.valves.avc.toFixed(0)}, MVO ${work.valves.mvo.toFixed(0)} ms from end-diastole).</p>` : '';
+
+  const timing = analysis.timing ?? null;
+  const timingCells = (i: number) => (timing
+    ? `<td>${timing.timeToPeak[i] !== null ? `${timing.timeToPeak[i]!.toFixed(0)} ms` : '—'}</td><td>${timing.postSystolicIndex[i] !== null ? `PSI ${timing.postSystolicIndex[i]!.toFixed(0)}%` : '—'}</td>`
+    : '');
+  const segmentRows = analysis.segments.detailed.map((value, i) =>
+    `<tr><td>${i + 1}</td><td>${escapeHtml(AHA_SEGMENT_NAMES[i])}</td><td>${qcLabel(i)}</td><td>${value !== null ? formatPercent(value) : 'Not assessed'}</td>${timingCells(i)}</tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>CardiaStrain Report ${new Date(analysis.timestamp).toLocaleString()}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 24px; font-size: 12px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.08em; color: #475569; margin: 20px 0 8px; }
+  h3 { font-size: 12px; margin: 0 0 6px; }
+  table { border-collapse: collapse; width: 100%; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 3px 6px; }
+  td:last-child { text-align: right; font-variant-numeric: tabular-nums; }
+  .meta { color: #64748b; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .chart { background: #0f172a; border-radius: 8px; padding: 8px; margin-top: 8px; }
+  .chart svg { width: 100%; height: auto; }
+  .warn { color: #b45309; font-weight: 600; }
+  .ef { font-size: 32px; font-weight: 800; }
+  @media print { body { margin: 12mm; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+  <h1>Diagnostic Biplane Report</h1>
+  <div class="meta">Analysed ${escapeHtml(new Date(analysis.timestamp).toLocaleString())} · Tracker ${analysis.tracking.algorithm.toUpperCase()} · Post-processing: ${escapeHtml(describeProcessing(analysis.tracking))}</div>
+
+  <h2>Left Ventricle</h2>
+  <div class="grid">
+    <section>
+      <div class="ef">${analysis.biplaneEf.toFixed(1)}%</div>
+      <div class="meta">${volumes?.method === 'single-plane' ? 'Single-plane LVEF (area-length)' : "Biplane LVEF (Simpson's)"}</div>
+    </section>
+    <section>
+      <table>
+        ${volumeRows}
+        <tr><td>Heart rate</td><td>${analysis.hr > 0 ? `${analysis.hr.toFixed(0)} bpm` : '—'}${hrSource ? ` (${hrSource})` : ''}</td></tr>
+      </table>
+    </section>
+  </div>
+
+  <h2>Longitudinal Strain</h2>
+  <p>Global longitudinal strain <b>${formatPercent(analysis.gls)}</b> <span class="meta">(mean of ${views.map(([id]) => id.toUpperCase()).join(', ') || 'no views'})</span></p>
+  ${analysis.strainRate ? `<p>Strain rate SRs / SRe / SRa <b>${formatStrainRates(analysis.strainRate)}</b></p>` : ''}
+  <div class="grid">${viewSections}</div>
+
+${shortAxisSection}
+${rightVentricleSection}
+${leftAtriumSection}
+${workSection}
+
+  <h2>17-Segment Strain</h2>
+  <div class="grid">
+    <section>${charts.bullsEye ?? ''}</section>
+    <section><table>${segmentRows}</table></section>
+  </div>
+  ${timing ? `<p>Mechanical dispersion <b>${timing.dispersion !== null ? `${timing.dispersion.toFixed(0)} ms` : '—'}</b> <span class="meta">(SD of time-to-peak strain from end-diastole over the reliable segments${timing.endSystole !== null ? `; end-systole at ${timing.endSystole.toFixed(0)} ms` : ''})</span></p>` : ''}
+
+  <p class="meta">Measurements are derived from digital pixel analysis and should be correlated with clinical findings by a certified cardiologist.</p>
+</body>
+</html>`;
+};
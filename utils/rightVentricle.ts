@@ -0,0 +1,94 @@
+import { ViewAnalysis, ROI, TrackingSettings, RightVentricleResult, Vector2 } from '../types';
+import { getLongAxis, projectOnAxis } from './segments';
+import { computeContourStrain } from './strain';
+import { framePoints } from './trajectory';
+import { cycleBounds, rereferenceStrain } from './cycles';
+import { toMm, toCm2 } from './calibration';
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Shoelace area of a polygon taken in the given order (the trace is closed across the annulus)
+const polygonArea = (positions: Vector2[]): number => {
+  if (positions.length < 3) return 0;
+  let area = 0;
+  positions.forEach((p, i) => {
+    const q = positions[(i + 1) % positions.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+// The RV lies on the image left in the standard apical orientation, so the endocardial trace
+// left of the ROI's long axis is the free wall (tricuspid annulus to apex) and the rest septum
+export const splitRightVentricleWalls = (view: ViewAnalysis, roi: ROI): { freeWall: string[], septum: string[] } => {
+  const axis = getLongAxis(roi);
+  const byId = new Map(view.points.map(p => [p.id, p]));
+  const onFreeWall = (id: string) => !!byId.get(id) && projectOnAxis(byId.get(id)!.initial, axis).r > 0;
+  return {
+    freeWall: view.walls.endocardium.filter(onFreeWall),
+    septum: view.walls.endocardium.filter(id => !onFreeWall(id))
+  };
+};
+
+// RV free-wall, septal and four-chamber strain, fractional area change of the endocardial trace
+// and TAPSE as the excursion of the basal free-wall point towards the apex. Each value is taken
+// per complete cycle against its end-diastole and averaged; the whole clip stands in without one.
+export const summarizeRightVentricle = (view: ViewAnalysis, roi: ROI | null, settings: TrackingSettings): RightVentricleResult | null => {
+  if (!roi || view.history.length < 2 || view.walls.endocardium.length < 3) return null;
+  const { freeWall, septum } = splitRightVentricleWalls(view, roi);
+  const axis = getLongAxis(roi);
+  const axisLength = Math.hypot(axis.apex.x - axis.base.x, axis.apex.y - axis.base.y) || 1;
+  const towardsApex = { x: (axis.apex.x - axis.base.x) / axisLength, y: (axis.apex.y - axis.base.y) / axisLength };
+  const annulus = view.points.find(p => p.id === freeWall[0]);
+  const lowQuality = new Set<string>();
+
+  const frames = view.history.map(sample => {
+    const points = framePoints(view.points, sample, lowQuality, settings);
+    const positions = new Map(sample.points.map(p => [p.id, p]));
+    const trace = view.walls.endocardium.map(id => positions.get(id)).filter((p): p is NonNullable<typeof p> => !!p);
+    const annulusPos = annulus ? positions.get(annulus.id) : undefined;
+    return {
+      fourChamber: computeContourStrain(points, view.walls.endocardium).global,
+      freeWall: computeContourStrain(points, freeWall).global,
+      septum: computeContourStrain(points, septum).global,
+      area: polygonArea(trace),
+      excursion: annulus && annulusPos
+        ? (annulusPos.x - annulus.initial.x) * towardsApex.x + (annulusPos.y - annulus.initial.y) * towardsApex.y
+        : null
+    };
+  });
+
+  const cycles = cycleBounds(view.history, view.beats).map(([from, to]) => {
+    const window = frames.slice(from, to + 1);
+    const peak = (key: 'fourChamber' | 'freeWall' | 'septum') =>
+      Math.min(0, ...window.map(f => rereferenceStrain(f[key], frames[from][key])));
+    const areas = window.map(f => f.area);
+    const excursions = window.map(f => f.excursion).filter((e): e is number => e !== null);
+    const start = frames[from].excursion;
+    return {
+      fourChamber: peak('fourChamber'),
+      freeWall: peak('freeWall'),
+      septum: peak('septum'),
+      eda: Math.max(...areas),
+      esa: Math.min(...areas),
+      tapse: start !== null && excursions.length > 0 ? Math.max(0, ...excursions.map(e => e - start)) : null
+    };
+  });
+
+  const eda = mean(cycles.map(c => c.eda));
+  const esa = mean(cycles.map(c => c.esa));
+  const tapses = cycles.map(c => c.tapse).filter((t): t is number => t !== null);
+  const tapse = tapses.length > 0 ? mean(tapses) : null;
+  const cal = view.calibration;
+  return {
+    fourChamberStrain: mean(cycles.map(c => c.fourChamber)),
+    freeWallStrain: mean(cycles.map(c => c.freeWall)),
+    septalStrain: mean(cycles.map(c => c.septum)),
+    eda: cal ? toCm2(eda, cal) : eda,
+    esa: cal ? toCm2(esa, cal) : esa,
+    areaUnit: cal ? 'cm²' : 'px²',
+    fac: eda > 0 ? ((eda - esa) / eda) * 100 : null,
+    tapse: tapse !== null && cal ? toMm(tapse, cal) : tapse,
+    tapseUnit: cal ? 'mm' : 'px'
+  };
+};
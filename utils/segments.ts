@@ -0,0 +1,85 @@
+import { Vector2, TrackingPoint, ViewId, ApicalView, ROI, LongAxis, ViewAnalysis } from '../types';
+
+export const AHA_SEGMENT_NAMES = [
+  'Basal Anterior', 'Basal Anteroseptal', 'Basal Inferoseptal', 'Basal Inferior', 'Basal Inferolateral', 'Basal Anterolateral',
+  'Mid Anterior', 'Mid Anteroseptal', 'Mid Inferoseptal', 'Mid Inferior', 'Mid Inferolateral', 'Mid Anterolateral',
+  'Apical Anterior', 'Apical Septal', 'Apical Inferior', 'Apical Lateral',
+  'Apex'
+];
+
+type Level = 'basal' | 'mid' | 'apical';
+
+// Wall seen on the left / right of the long axis in the standard apical orientation
+// (apex at the top of the sector, septum / inferior wall on the image left).
+const VIEW_WALLS: { [key in ApicalView]: { left: { [key in Level]: number }, right: { [key in Level]: number } } } = {
+  a4c: {
+    left: { basal: 2, mid: 8, apical: 13 },   // inferoseptal, apical septal
+    right: { basal: 5, mid: 11, apical: 15 }  // anterolateral, apical lateral
+  },
+  a2c: {
+    left: { basal: 3, mid: 9, apical: 14 },   // inferior
+    right: { basal: 0, mid: 6, apical: 12 }   // anterior
+  },
+  a3c: {
+    left: { basal: 4, mid: 10, apical: 15 },  // inferolateral, apical lateral
+    right: { basal: 1, mid: 7, apical: 13 }   // anteroseptal, apical septal
+  }
+};
+
+const APEX_SEGMENT = 16;
+
+// Fractions of the apex-to-base distance delimiting the apical cap and the three levels
+const APEX_LIMIT = 0.1;
+const APICAL_LIMIT = 0.4;
+const MID_LIMIT = 0.7;
+
+export const getLongAxis = (roi: ROI): LongAxis => ({
+  apex: { x: roi.x + roi.w / 2, y: roi.y },
+  base: { x: roi.x + roi.w / 2, y: roi.y + roi.h }
+});
+
+// The atrium lies below the mitral annulus, so its axis runs from the roof (taking the place of
+// the apex) at the bottom of the ROI up to the annulus at the top
+export const getAtrialAxis = (roi: ROI): LongAxis => ({
+  apex: { x: roi.x + roi.w / 2, y: roi.y + roi.h },
+  base: { x: roi.x + roi.w / 2, y: roi.y }
+});
+
+// t: 0 at the apex, 1 at the base. r: signed distance from the axis, positive on the image left.
+export const projectOnAxis = (point: Vector2, axis: LongAxis): { t: number, r: number } => {
+  const ax = axis.base.x - axis.apex.x;
+  const ay = axis.base.y - axis.apex.y;
+  const len = Math.sqrt(ax * ax + ay * ay) || 1;
+  const px = point.x - axis.apex.x;
+  const py = point.y - axis.apex.y;
+  return {
+    t: (px * ax + py * ay) / (len * len),
+    r: (ax * py - ay * px) / len
+  };
+};
+
+// Only the LV apical views map onto the AHA model; short-axis and RV points stay unassigned
+export const getSegmentIndex = (view: ViewId, point: Vector2, axis: LongAxis): number | null => {
+  const walls = VIEW_WALLS[view as ApicalView];
+  if (!walls) return null;
+  const { t, r } = projectOnAxis(point, axis);
+  if (t < APEX_LIMIT) return APEX_SEGMENT;
+
+  const level: Level = t < APICAL_LIMIT ? 'apical' : t < MID_LIMIT ? 'mid' : 'basal';
+  return r > 0 ? walls.left[level] : walls.right[level];
+};
+
+export const assignSegments = (view: ViewId, points: TrackingPoint[], axis: LongAxis): TrackingPoint[] => {
+  return points.map(pt => ({ ...pt, segment: getSegmentIndex(view, pt.initial, axis) }));
+};
+
+// Peak (most negative) value of each segment curve, averaged across the views that cover it
+export const computeSegmentalStrain = (views: ViewAnalysis[]): (number | null)[] => {
+  return Array.from({ length: 17 }).map((_, seg) => {
+    const peaks = views
+      .map(v => v.segmentCurves[seg])
+      .filter(curve => curve && curve.length > 0)
+      .map(curve => Math.min(...curve.map(s => s.strain)));
+    return peaks.length > 0 ? peaks.reduce((a, b) => a + b, 0) / peaks.length : null;
+  });
+};
@@ -0,0 +1,185 @@
+import { Vector2, TrackingPoint, WallPolylines, ViewAnalysis, ShortAxisLevel, ShortAxisResult, ShortAxisView } from '../types';
+
+const RING_BINS = 24;
+const TWIST_SAMPLES = 50;
+
+export interface Circle {
+  center: Vector2;
+  radius: number;
+}
+
+export interface ShortAxisStrain {
+  circumferential: number; // % perimeter change of the endocardial ring
+  radial: number; // % wall thickening, mean over the angular bins
+  rotation: number; // degrees, counterclockwise as seen from the apex is positive
+  points: Map<string, { circumferential: number, radial: number, rotation: number }>;
+}
+
+// Algebraic least-squares circle (Kåsa): x² + y² + Dx + Ey + F = 0. Falls back to the
+// centroid and mean radius when the points are too few or collinear.
+export const fitCircle = (points: Vector2[]): Circle => {
+  const n = points.length;
+  if (n === 0) return { center: { x: 0, y: 0 }, radius: 0 };
+  const cx = points.reduce((acc, p) => acc + p.x, 0) / n;
+  const cy = points.reduce((acc, p) => acc + p.y, 0) / n;
+  const centroid = { center: { x: cx, y: cy }, radius: points.reduce((acc, p) => acc + Math.hypot(p.x - cx, p.y - cy), 0) / n };
+  if (n < 3) return centroid;
+
+  // Centred coordinates keep the normal equations well conditioned
+  let suu = 0, svv = 0, suv = 0, suuu = 0, svvv = 0, suvv = 0, svuu = 0;
+  points.forEach(p => {
+    const u = p.x - cx;
+    const v = p.y - cy;
+    suu += u * u; svv += v * v; suv += u * v;
+    suuu += u * u * u; svvv += v * v * v; suvv += u * v * v; svuu += v * u * u;
+  });
+  const det = suu * svv - suv * suv;
+  if (Math.abs(det) < 1e-9) return centroid;
+  const bu = (suuu + suvv) / 2;
+  const bv = (svvv + svuu) / 2;
+  const uc = (bu * svv - bv * suv) / det;
+  const vc = (bv * suu - bu * suv) / det;
+  return {
+    center: { x: cx + uc, y: cy + vc },
+    radius: Math.sqrt(uc * uc + vc * vc + (suu + svv) / n)
+  };
+};
+
+// Screen y grows downwards, so the angle is taken against -y to make counterclockwise positive
+const angleOf = (p: Vector2, center: Vector2) => Math.atan2(center.y - p.y, p.x - center.x);
+
+const wrapDegrees = (deg: number) => ((deg + 540) % 360) - 180;
+
+// Points grouped in angular bins around the centre, each bin sorted from the cavity outwards
+const ringBins = (points: TrackingPoint[], center: Vector2): string[][] => {
+  const bins: { id: string, r: number }[][] = Array.from({ length: RING_BINS }, () => []);
+  points.forEach(pt => {
+    const angle = angleOf(pt.initial, center) + Math.PI;
+    const bin = Math.min(RING_BINS - 1, Math.floor((angle / (2 * Math.PI)) * RING_BINS));
+    bins[bin].push({ id: pt.id, r: Math.hypot(pt.initial.x - center.x, pt.initial.y - center.y) });
+  });
+  return bins.map(bin => [...bin].sort((a, b) => a.r - b.r).map(b => b.id));
+};
+
+// Closed rings around the fitted centre: the innermost point of each bin is endocardium,
+// the median of the remaining points mid-wall (the first id is not repeated at the end)
+export const buildRingPolylines = (points: TrackingPoint[]): WallPolylines => {
+  const { center } = fitCircle(points.map(p => p.initial));
+  const bins = ringBins(points, center).filter(bin => bin.length > 0);
+  const endocardium = bins.map(bin => bin[0]);
+  const midwall = bins.filter(bin => bin.length > 1).map(bin => bin.slice(1)[Math.floor((bin.length - 1) / 2)]);
+  return {
+    endocardium: endocardium.length >= 3 ? endocardium : [],
+    midwall: midwall.length >= 3 ? midwall : []
+  };
+};
+
+// Circumferential strain along the closed endocardial ring, radial strain as the thickness
+// change between the innermost and outermost point of each angular bin, and rotation of every
+// point about the fitted centre relative to the reference frame
+export const computeShortAxisStrain = (points: TrackingPoint[], walls: WallPolylines): ShortAxisStrain => {
+  const result: ShortAxisStrain = { circumferential: 0, radial: 0, rotation: 0, points: new Map() };
+  const byId = new Map(points.map(p => [p.id, p]));
+  const ring = walls.endocardium.map(id => byId.get(id)).filter((p): p is TrackingPoint => !!p);
+  if (ring.length < 3) return result;
+
+  const refCenter = fitCircle(ring.map(p => p.initial)).center;
+  const curCenter = fitCircle(ring.map(p => p.current)).center;
+  const dist = (a: Vector2, b: Vector2) => Math.hypot(a.x - b.x, a.y - b.y);
+  const entry = (id: string) => {
+    if (!result.points.has(id)) result.points.set(id, { circumferential: 0, radial: 0, rotation: 0 });
+    return result.points.get(id)!;
+  };
+
+  let refPerimeter = 0;
+  let curPerimeter = 0;
+  ring.forEach((pt, i) => {
+    const prev = ring[(i - 1 + ring.length) % ring.length];
+    const next = ring[(i + 1) % ring.length];
+    const ref = (dist(prev.initial, pt.initial) + dist(pt.initial, next.initial)) / 2;
+    const cur = (dist(prev.current, pt.current) + dist(pt.current, next.current)) / 2;
+    refPerimeter += ref;
+    curPerimeter += cur;
+    entry(pt.id).circumferential = ref > 0 ? ((cur - ref) / ref) * 100 : 0;
+  });
+  result.circumferential = refPerimeter > 0 ? ((curPerimeter - refPerimeter) / refPerimeter) * 100 : 0;
+
+  const thickening: number[] = [];
+  ringBins(points, refCenter).forEach(bin => {
+    if (bin.length < 2) return;
+    const inner = byId.get(bin[0])!;
+    const outer = byId.get(bin[bin.length - 1])!;
+    const ref = dist(inner.initial, outer.initial);
+    if (ref <= 0) return;
+    const value = ((dist(inner.current, outer.current) - ref) / ref) * 100;
+    thickening.push(value);
+    entry(inner.id).radial = value;
+    entry(outer.id).radial = value;
+  });
+  result.radial = thickening.length > 0 ? thickening.reduce((a, b) => a + b, 0) / thickening.length : 0;
+
+  let rotationSum = 0;
+  points.forEach(pt => {
+    const rotation = wrapDegrees(((angleOf(pt.current, curCenter) - angleOf(pt.initial, refCenter)) * 180) / Math.PI);
+    entry(pt.id).rotation = rotation;
+    rotationSum += rotation;
+  });
+  result.rotation = rotationSum / points.length;
+  return result;
+};
+
+// Value of largest magnitude, keeping its sign
+const extreme = (values: number[]) => values.reduce((best, v) => (Math.abs(v) > Math.abs(best) ? v : best), 0);
+
+// Rotation over the first complete beat (or the whole clip), resampled on a normalised time base
+// so clips recorded at different heart rates and frame rates can be subtracted
+const normalisedRotation = (view: ViewAnalysis): number[] => {
+  const beat = view.beats.find(b => b.complete);
+  const samples = beat ? view.history.slice(beat.edFrame, beat.endFrame + 1) : view.history;
+  if (samples.length < 2) return [];
+  const start = samples[0].time;
+  const span = samples[samples.length - 1].time - start || 1;
+  const base = samples[0].rotation ?? 0;
+  return Array.from({ length: TWIST_SAMPLES }, (_, k) => {
+    const t = start + (k / (TWIST_SAMPLES - 1)) * span;
+    const found = samples.findIndex(s => s.time >= t);
+    const j = found < 0 ? samples.length - 1 : Math.max(1, found);
+    const a = samples[j - 1];
+    const b = samples[Math.min(j, samples.length - 1)];
+    const f = b.time > a.time ? (t - a.time) / (b.time - a.time) : 0;
+    return ((a.rotation ?? 0) + ((b.rotation ?? 0) - (a.rotation ?? 0)) * Math.min(1, Math.max(0, f))) - base;
+  });
+};
+
+// Peak radial strain and the rotation of largest magnitude within the first complete beat
+export const peakShortAxis = (view: ViewAnalysis): { grs: number, rotation: number } => ({
+  grs: Math.max(0, ...view.history.map(s => s.radial ?? 0)),
+  rotation: extreme(normalisedRotation(view))
+});
+
+// Peak values per short-axis level, then LV twist (apical minus basal rotation) and torsion
+// (twist over the end-diastolic LV length of a calibrated apical view, in °/cm)
+export const summarizeShortAxis = (
+  levels: { view: ShortAxisView, level: ShortAxisLevel, analysis: ViewAnalysis }[],
+  apicalViews: ViewAnalysis[]
+): ShortAxisResult | null => {
+  if (levels.length === 0) return null;
+  const summaries = levels.map(({ view, level, analysis }) => ({ view, level, gcs: analysis.gls, ...peakShortAxis(analysis) }));
+
+  const apex = levels.find(l => l.level === 'apical');
+  const base = levels.find(l => l.level === 'basal');
+  let twist: number | null = null;
+  if (apex && base) {
+    const apical = normalisedRotation(apex.analysis);
+    const basal = normalisedRotation(base.analysis);
+    if (apical.length > 0 && basal.length > 0) twist = extreme(apical.map((r, k) => r - basal[k]));
+  }
+
+  const reference = apicalViews.find(v => v.calibration && v.edContour);
+  const lengthCm = reference ? (reference.edContour!.length * reference.calibration!.mmPerPixel) / 10 : null;
+  return {
+    levels: summaries,
+    twist,
+    torsion: twist !== null && lengthCm ? twist / lengthCm : null
+  };
+};
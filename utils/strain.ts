@@ -0,0 +1,108 @@
+import { Vector2, TrackingPoint, LongAxis, WallPolylines, ViewAnalysis } from '../types';
+import { projectOnAxis } from './segments';
+
+const WALL_BINS = 12;
+
+export const EMPTY_WALLS: WallPolylines = { endocardium: [], midwall: [] };
+
+export interface ContourStrain {
+  global: number; // % length change of the whole polyline
+  pointStrain: Map<string, number>;
+  segments: { [segment: number]: number };
+  segmentLengths: { [segment: number]: { ref: number, cur: number } };
+}
+
+// Bins the points along the long axis on each side. The sample closest to the axis in a bin
+// is taken as endocardium and the median of the remaining samples as mid-wall.
+export const buildWallPolylines = (points: TrackingPoint[], axis: LongAxis, bins: number = WALL_BINS): WallPolylines => {
+  const sides: { [side: string]: { id: string, r: number }[][] } = {
+    left: Array.from({ length: bins }, () => []),
+    right: Array.from({ length: bins }, () => [])
+  };
+
+  points.forEach(pt => {
+    const { t, r } = projectOnAxis(pt.initial, axis);
+    if (t < 0 || t > 1) return;
+    const bin = Math.min(bins - 1, Math.floor(t * bins));
+    sides[r > 0 ? 'left' : 'right'][bin].push({ id: pt.id, r: Math.abs(r) });
+  });
+
+  const trace = (side: { id: string, r: number }[][], layer: 'endocardium' | 'midwall') => {
+    return side.map(bin => {
+      const sorted = [...bin].sort((a, b) => a.r - b.r);
+      if (layer === 'endocardium') return sorted[0]?.id;
+      const outer = sorted.slice(1);
+      return outer[Math.floor(outer.length / 2)]?.id;
+    }).filter((id): id is string => !!id);
+  };
+
+  const build = (layer: 'endocardium' | 'midwall') => {
+    const line = [...trace(sides.left, layer).reverse(), ...trace(sides.right, layer)];
+    return line.length >= 3 ? line : [];
+  };
+
+  return { endocardium: build('endocardium'), midwall: build('midwall') };
+};
+
+export const polylineLength = (positions: Vector2[]): number => {
+  let length = 0;
+  for (let i = 1; i < positions.length; i++) {
+    length += Math.hypot(positions[i].x - positions[i - 1].x, positions[i].y - positions[i - 1].y);
+  }
+  return length;
+};
+
+// Lagrangian strain against the reference (initial) positions. Each point owns half of its two
+// neighbouring arc elements, and a segment's length is the sum over the points assigned to it.
+export const computeContourStrain = (points: TrackingPoint[], polyline: string[]): ContourStrain => {
+  const byId = new Map(points.map(p => [p.id, p]));
+  const chain = polyline.map(id => byId.get(id)).filter((p): p is TrackingPoint => !!p);
+  const result: ContourStrain = { global: 0, pointStrain: new Map(), segments: {}, segmentLengths: {} };
+  if (chain.length < 2) return result;
+
+  const dist = (a: Vector2, b: Vector2) => Math.hypot(a.x - b.x, a.y - b.y);
+  const owned = chain.map((pt, i) => {
+    const prev = chain[i - 1];
+    const next = chain[i + 1];
+    const ref = (prev ? dist(prev.initial, pt.initial) : 0) / 2 + (next ? dist(pt.initial, next.initial) : 0) / 2;
+    const cur = (prev ? dist(prev.current, pt.current) : 0) / 2 + (next ? dist(pt.current, next.current) : 0) / 2;
+    return { pt, ref, cur };
+  });
+
+  const segRef: { [segment: number]: number } = {};
+  const segCur: { [segment: number]: number } = {};
+  owned.forEach(({ pt, ref, cur }) => {
+    result.pointStrain.set(pt.id, ref > 0 ? ((cur - ref) / ref) * 100 : 0);
+    if (pt.segment === null) return;
+    segRef[pt.segment] = (segRef[pt.segment] || 0) + ref;
+    segCur[pt.segment] = (segCur[pt.segment] || 0) + cur;
+  });
+
+  Object.keys(segRef).forEach(key => {
+    const seg = Number(key);
+    result.segmentLengths[seg] = { ref: segRef[seg], cur: segCur[seg] };
+    if (segRef[seg] > 0) result.segments[seg] = ((segCur[seg] - segRef[seg]) / segRef[seg]) * 100;
+  });
+
+  const refLength = polylineLength(chain.map(p => p.initial));
+  const curLength = polylineLength(chain.map(p => p.current));
+  result.global = refLength > 0 ? ((curLength - refLength) / refLength) * 100 : 0;
+  return result;
+};
+
+// Global longitudinal strain averaged over the processed apical views (triplane when all three are in)
+export const averageGls = (views: ViewAnalysis[]): number | null =>
+  views.length > 0 ? views.reduce((acc, v) => acc + v.gls, 0) / views.length : null;
+
+// Global strain over a subset of segments: the summed length change of the arcs they own
+export const strainOverSegments = (contour: ContourStrain, segments: number[]): number => {
+  let ref = 0;
+  let cur = 0;
+  segments.forEach(seg => {
+    const lengths = contour.segmentLengths[seg];
+    if (!lengths) return;
+    ref += lengths.ref;
+    cur += lengths.cur;
+  });
+  return ref > 0 ? ((cur - ref) / ref) * 100 : 0;
+};
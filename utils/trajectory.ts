@@ -0,0 +1,210 @@
+import { ViewAnalysis, ViewId, FrameSample, CardiacBeat, TrackingPoint, TrackingSettings, TrackedPosition, StrainSample, Vector2, Contour } from '../types';
+import { calculateArea } from './motion';
+import { measureFrame, resetPoint } from './pipeline';
+import { buildContour } from './volumes';
+
+type Positions = Map<string, TrackedPosition>;
+
+const toPositions = (sample: FrameSample): Positions => new Map(sample.points.map(p => [p.id, { ...p }]));
+
+const fromPositions = (sample: FrameSample, positions: Positions): FrameSample => ({
+  ...sample,
+  points: sample.points.map(p => positions.get(p.id) ?? p)
+});
+
+// Points that take part in the strain of one frame. Low quality is sticky, as in the live
+// pipeline: once a point dropped below the threshold it stays flagged for later frames.
+export const framePoints = (
+  points: TrackingPoint[],
+  sample: FrameSample,
+  lowQuality: Set<string>,
+  settings: TrackingSettings
+): TrackingPoint[] => {
+  const positions = new Map(sample.points.map(p => [p.id, p]));
+  sample.points.forEach(p => {
+    if (p.quality < settings.minQuality) lowQuality.add(p.id);
+  });
+  return points
+    .filter(p => positions.has(p.id) && !(settings.excludeLowQuality && lowQuality.has(p.id)))
+    .map(p => ({ ...p, current: { x: positions.get(p.id)!.x, y: positions.get(p.id)!.y } }));
+};
+
+// Linear drift correction: across every complete cycle the offset between a point's position
+// at end-diastole and at the end of the cycle is removed in proportion to the elapsed time,
+// and the full offset is carried on to the frames after the cycle
+export const correctDrift = (history: FrameSample[], beats: CardiacBeat[]): FrameSample[] => {
+  const frames = history.map(toPositions);
+  beats.filter(b => b.complete).sort((a, b) => a.edFrame - b.edFrame).forEach(beat => {
+    const start = frames[beat.edFrame];
+    const end = frames[beat.endFrame];
+    const span = history[beat.endFrame].time - history[beat.edFrame].time;
+    if (!start || !end || span <= 0) return;
+
+    start.forEach((from, id) => {
+      const to = end.get(id);
+      if (!to) return;
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      for (let i = beat.edFrame + 1; i < frames.length; i++) {
+        const pos = frames[i].get(id);
+        if (!pos) continue;
+        const share = Math.min(1, (history[i].time - history[beat.edFrame].time) / span);
+        pos.x -= dx * share;
+        pos.y -= dy * share;
+      }
+    });
+  });
+  return history.map((sample, i) => fromPositions(sample, frames[i]));
+};
+
+// Quadratic Savitzky–Golay smoothing weights for a centred window of 2m + 1 samples
+export const savitzkyGolayWeights = (window: number): number[] => {
+  const m = Math.floor(window / 2);
+  const norm = (2 * m + 1) * (4 * m * m + 4 * m - 3);
+  return Array.from({ length: 2 * m + 1 }, (_, k) => {
+    const i = k - m;
+    return (3 * (3 * m * m + 3 * m - 1) - 15 * i * i) / norm;
+  });
+};
+
+// Savitzky–Golay filter over each point's x and y trajectory. The ends are extended by odd
+// reflection, which keeps the first (reference) frame exactly where it was.
+export const smoothTemporal = (history: FrameSample[], window: number): FrameSample[] => {
+  const usable = Math.min(window, history.length % 2 === 0 ? history.length - 1 : history.length);
+  if (usable < 5) return history;
+  const weights = savitzkyGolayWeights(usable);
+  const m = Math.floor(usable / 2);
+  const frames = history.map(toPositions);
+  const last = frames.length - 1;
+
+  const filter = (values: number[]) => values.map((_, i) => weights.reduce((acc, w, k) => {
+    const j = i + k - m;
+    const value = j < 0 ? 2 * values[0] - values[-j] : j > last ? 2 * values[last] - values[2 * last - j] : values[j];
+    return acc + w * value;
+  }, 0));
+
+  frames[0].forEach((_, id) => {
+    if (!frames.every(f => f.has(id))) return;
+    const xs = filter(frames.map(f => f.get(id)!.x));
+    const ys = filter(frames.map(f => f.get(id)!.y));
+    frames.forEach((f, i) => {
+      const pos = f.get(id)!;
+      pos.x = xs[i];
+      pos.y = ys[i];
+    });
+  });
+  return history.map((sample, i) => fromPositions(sample, frames[i]));
+};
+
+// Spatial smoothing of the displacements along each wall trace with a [1 2 1] kernel,
+// applied the given number of times per frame. The basal ends of a trace have one neighbour
+// only and are left as tracked, so the kernel does not pull them towards the wall.
+export const smoothSpatial = (history: FrameSample[], view: Pick<ViewAnalysis, 'points' | 'walls'>, passes: number): FrameSample[] => {
+  if (passes <= 0) return history;
+  const initial = new Map(view.points.map(p => [p.id, p.initial]));
+  const traces = [view.walls.endocardium, view.walls.midwall].map(trace => trace.filter(id => initial.has(id)));
+
+  return history.map(sample => {
+    const positions = toPositions(sample);
+    traces.forEach(trace => {
+      for (let pass = 0; pass < passes; pass++) {
+        const displacement = trace.map(id => {
+          const pos = positions.get(id);
+          const origin = initial.get(id)!;
+          return pos ? { x: pos.x - origin.x, y: pos.y - origin.y } : null;
+        });
+        trace.forEach((id, k) => {
+          const own = displacement[k];
+          const before = displacement[k - 1];
+          const after = displacement[k + 1];
+          if (!own || !before || !after) return;
+          const origin = initial.get(id)!;
+          const pos = positions.get(id)!;
+          pos.x = origin.x + (before.x + 2 * own.x + after.x) / 4;
+          pos.y = origin.y + (before.y + 2 * own.y + after.y) / 4;
+        });
+      }
+    });
+    return fromPositions(sample, positions);
+  });
+};
+
+// Recomputes everything the live pipeline derives from the point positions (strain curves,
+// areas, contours, peak motion) from a post-processed history
+export const rebuildFromHistory = (
+  view: ViewAnalysis,
+  viewId: ViewId,
+  history: FrameSample[],
+  settings: TrackingSettings
+): Pick<ViewAnalysis, 'history' | 'points' | 'gls' | 'midwallGls' | 'segmentCurves' | 'maxArea' | 'minArea' | 'edContour' | 'esContour' | 'peakDisplacement' | 'peakVelocity'> => {
+  const lowQuality = new Set<string>();
+  const segmentCurves: { [segment: number]: StrainSample[] } = {};
+  let gls = 0, midwallGls: number | null = null, maxArea = 0, minArea = Infinity;
+  let edContour: Contour | null = null, esContour: Contour | null = null, peakDisplacement = 0, peakVelocity = 0;
+  let previous: Map<string, Vector2> | null = null;
+  let points = view.points.map(resetPoint);
+
+  const rebuilt = history.map((sample, i) => {
+    const tracked = new Map(sample.points.map(p => [p.id, p]));
+    sample.points.forEach(p => {
+      if (p.quality < settings.minQuality) lowQuality.add(p.id);
+    });
+    const dt = i > 0 ? sample.time - history[i - 1].time : 0;
+    const positioned = points.filter(p => tracked.has(p.id)).map(p => {
+      const { x, y, quality } = tracked.get(p.id)!;
+      const before = previous?.get(p.id);
+      const velocity = before && dt > 0 ? { x: (x - before.x) / dt, y: (y - before.y) / dt } : { x: 0, y: 0 };
+      return { ...p, current: { x, y }, velocity, quality, lowQuality: lowQuality.has(p.id) };
+    });
+    previous = new Map(positioned.map(p => [p.id, p.current]));
+
+    const measured = measureFrame(viewId, positioned, view.walls, settings);
+    points = measured.points;
+    Object.entries(measured.segments).forEach(([seg, strain]) => {
+      segmentCurves[Number(seg)] = [...(segmentCurves[Number(seg)] || []), { time: sample.time, strain }];
+    });
+    gls = Math.min(gls, measured.strain);
+    if (measured.midwall !== null) midwallGls = Math.min(midwallGls ?? 0, measured.midwall);
+
+    const positions = points.map(p => p.current);
+    const area = calculateArea(positions);
+    const contour = buildContour(positions);
+    const count = points.length || 1;
+    peakDisplacement = Math.max(peakDisplacement, points.reduce((acc, p) => acc + Math.hypot(p.current.x - p.initial.x, p.current.y - p.initial.y), 0) / count);
+    peakVelocity = Math.max(peakVelocity, points.reduce((acc, p) => acc + Math.hypot(p.velocity.x, p.velocity.y), 0) / count);
+    if (area > maxArea) {
+      maxArea = area;
+      edContour = contour;
+    }
+    if (area > 0 && area < minArea) {
+      minArea = area;
+      esContour = contour;
+    }
+    return { ...sample, strain: measured.strain, area, contour, radial: measured.shortAxis?.radial, rotation: measured.shortAxis?.rotation };
+  });
+
+  return { history: rebuilt, points, gls, midwallGls, segmentCurves, maxArea, minArea, edContour, esContour, peakDisplacement, peakVelocity };
+};
+
+export const hasTrajectoryProcessing = (settings: TrackingSettings) =>
+  settings.driftCorrection || settings.spatialSmoothing > 0 || settings.temporalWindow > 0;
+
+// Post-processing of tracked positions in a fixed order: drift correction over the given cycles,
+// spatial smoothing along the walls, then Savitzky–Golay smoothing in time
+export const processPositions = (
+  history: FrameSample[],
+  layout: Pick<ViewAnalysis, 'points' | 'walls'>,
+  beats: CardiacBeat[],
+  settings: TrackingSettings
+): FrameSample[] => {
+  let processed = history;
+  if (settings.driftCorrection) processed = correctDrift(processed, beats);
+  processed = smoothSpatial(processed, layout, settings.spatialSmoothing);
+  if (settings.temporalWindow > 0) processed = smoothTemporal(processed, settings.temporalWindow);
+  return processed;
+};
+
+export const processTrajectories = (view: ViewAnalysis, viewId: ViewId, beats: CardiacBeat[], settings: TrackingSettings): ViewAnalysis => {
+  if (!hasTrajectoryProcessing(settings) || view.history.length < 2) return view;
+  return { ...view, ...rebuildFromHistory(view, viewId, processPositions(view.history, view, beats, settings), settings) };
+};
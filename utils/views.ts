@@ -0,0 +1,36 @@
+import { ViewId, ViewKind, ShortAxisLevel } from '../types';
+
+export interface ViewDefinition {
+  id: ViewId;
+  label: string;
+  short: string;
+  kind: ViewKind;
+  level?: ShortAxisLevel; // short-axis views only
+  atrium?: boolean; // the left atrium can be tracked from a second ROI in the same clip
+}
+
+// Views in acquisition order; the UI, the analysis and the saved studies iterate this list
+export const VIEWS: ViewDefinition[] = [
+  { id: 'a4c', label: 'Apical 4-Chamber', short: 'A4C', kind: 'apical', atrium: true },
+  { id: 'a2c', label: 'Apical 2-Chamber', short: 'A2C', kind: 'apical', atrium: true },
+  { id: 'a3c', label: 'Apical 3-Chamber (APLAX)', short: 'A3C', kind: 'apical' },
+  { id: 'sax-base', label: 'Short-Axis Basal', short: 'SAX-B', kind: 'short-axis', level: 'basal' },
+  { id: 'sax-mid', label: 'Short-Axis Mid', short: 'SAX-M', kind: 'short-axis', level: 'mid' },
+  { id: 'sax-apex', label: 'Short-Axis Apical', short: 'SAX-A', kind: 'short-axis', level: 'apical' },
+  { id: 'rv4c', label: 'RV-Focused Apical 4-Chamber', short: 'RV4C', kind: 'right-ventricle' }
+];
+
+export const VIEW_IDS: ViewId[] = VIEWS.map(v => v.id);
+
+export const VIEW_LABELS = Object.fromEntries(VIEWS.map(v => [v.id, v.label])) as { [key in ViewId]: string };
+
+export const getViewDefinition = (view: ViewId): ViewDefinition => VIEWS.find(v => v.id === view)!;
+
+export const isShortAxis = (view: ViewId) => getViewDefinition(view).kind === 'short-axis';
+
+export const isRightVentricle = (view: ViewId) => getViewDefinition(view).kind === 'right-ventricle';
+
+export const hasAtrium = (view: ViewId) => !!getViewDefinition(view).atrium;
+
+export const createViewRecord = <T>(make: (view: ViewId) => T): { [key in ViewId]: T } =>
+  Object.fromEntries(VIEW_IDS.map(v => [v, make(v)])) as { [key in ViewId]: T };
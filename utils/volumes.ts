@@ -0,0 +1,150 @@
+import { Vector2, Contour, ViewAnalysis, VolumeResult } from '../types';
+import { calculateArea, orderContour } from './motion';
+
+export const DISK_COUNT = 20;
+
+// Apex is the contour point farthest from the mitral annulus midpoint; the annulus
+// hinge points are taken as the lowest point on either side of the cavity centroid
+// (the highest for the atrium, which hangs below the annulus).
+export const buildContour = (points: Vector2[], annulus: 'bottom' | 'top' = 'bottom'): Contour | null => {
+  if (points.length < 3) return null;
+  const ordered = orderContour(points);
+  const centerX = ordered.reduce((a, b) => a + b.x, 0) / ordered.length;
+
+  const left = ordered.filter(p => p.x <= centerX);
+  const right = ordered.filter(p => p.x > centerX);
+  if (left.length === 0 || right.length === 0) return null;
+  const hinge = (pts: Vector2[]) => pts.reduce((a, b) => ((annulus === 'bottom' ? b.y > a.y : b.y < a.y) ? b : a));
+  const hingeL = hinge(left);
+  const hingeR = hinge(right);
+  const base = { x: (hingeL.x + hingeR.x) / 2, y: (hingeL.y + hingeR.y) / 2 };
+
+  let apex = ordered[0];
+  let length = 0;
+  ordered.forEach(p => {
+    const d = Math.hypot(p.x - base.x, p.y - base.y);
+    if (d > length) {
+      length = d;
+      apex = p;
+    }
+  });
+
+  return { points: ordered, axis: { apex, base }, length, area: calculateArea(ordered) };
+};
+
+export const diskDiameters = (contour: Contour, count: number = DISK_COUNT): number[] => {
+  const { apex, base } = contour.axis;
+  const L = contour.length || 1;
+  const u = { x: (base.x - apex.x) / L, y: (base.y - apex.y) / L };
+  const n = { x: -u.y, y: u.x };
+  const along = contour.points.map(p => (p.x - apex.x) * u.x + (p.y - apex.y) * u.y);
+  const across = contour.points.map(p => (p.x - apex.x) * n.x + (p.y - apex.y) * n.y);
+
+  return Array.from({ length: count }).map((_, i) => {
+    const s = ((i + 0.5) / count) * L;
+    let minR = Infinity;
+    let maxR = -Infinity;
+    for (let k = 0; k < contour.points.length; k++) {
+      const j = (k + 1) % contour.points.length;
+      const sa = along[k];
+      const sb = along[j];
+      if (sa === sb || s < Math.min(sa, sb) || s > Math.max(sa, sb)) continue;
+      const r = across[k] + ((s - sa) / (sb - sa)) * (across[j] - across[k]);
+      minR = Math.min(minR, r);
+      maxR = Math.max(maxR, r);
+    }
+    return maxR > minR ? maxR - minR : 0;
+  });
+};
+
+// Biplane method of disks: V = pi/4 * sum(a_i * b_i) * L / N, using the longer long axis
+export const biplaneVolume = (a: Contour, b: Contour): number => {
+  const da = diskDiameters(a);
+  const db = diskDiameters(b);
+  const L = Math.max(a.length, b.length);
+  const sum = da.reduce((acc, d, i) => acc + d * db[i], 0);
+  return (Math.PI / 4) * sum * (L / DISK_COUNT);
+};
+
+// Single-plane area-length: V = 8 * A^2 / (3 * pi * L)
+export const areaLengthVolume = (contour: Contour): number => {
+  if (contour.length <= 0) return 0;
+  return (8 * contour.area * contour.area) / (3 * Math.PI * contour.length);
+};
+
+export const scaleContour = (contour: Contour, factor: number): Contour => {
+  const scale = (p: Vector2) => ({ x: p.x * factor, y: p.y * factor });
+  return {
+    points: contour.points.map(scale),
+    axis: { apex: scale(contour.axis.apex), base: scale(contour.axis.base) },
+    length: contour.length * factor,
+    area: contour.area * factor * factor
+  };
+};
+
+// Contours are converted to mm before integration so each view uses its own calibration
+const physical = (view: ViewAnalysis, contour: Contour, calibrated: boolean) =>
+  calibrated ? scaleContour(contour, view.calibration!.mmPerPixel) : contour;
+
+const toResult = (method: VolumeResult['method'], calibrated: boolean, edvRaw: number, esvRaw: number): VolumeResult => {
+  const edv = calibrated ? edvRaw / 1000 : edvRaw;
+  const esv = calibrated ? esvRaw / 1000 : esvRaw;
+  return {
+    method,
+    unit: calibrated ? 'mL' : 'px³',
+    edv,
+    esv,
+    sv: edv - esv,
+    ef: edv > 0 ? ((edv - esv) / edv) * 100 : 0
+  };
+};
+
+export const computeViewVolumes = (view: ViewAnalysis): VolumeResult | null => {
+  if (!view.edContour || !view.esContour) return null;
+  const calibrated = !!view.calibration;
+  return toResult(
+    'single-plane',
+    calibrated,
+    areaLengthVolume(physical(view, view.edContour, calibrated)),
+    areaLengthVolume(physical(view, view.esContour, calibrated))
+  );
+};
+
+export const computeVolumes = (a4c: ViewAnalysis | null, a2c: ViewAnalysis | null): VolumeResult | null => {
+  const hasA4c = !!(a4c && a4c.edContour && a4c.esContour);
+  const hasA2c = !!(a2c && a2c.edContour && a2c.esContour);
+
+  if (hasA4c && hasA2c) {
+    const calibrated = !!(a4c!.calibration && a2c!.calibration);
+    return toResult(
+      'biplane',
+      calibrated,
+      biplaneVolume(physical(a4c!, a4c!.edContour!, calibrated), physical(a2c!, a2c!.edContour!, calibrated)),
+      biplaneVolume(physical(a4c!, a4c!.esContour!, calibrated), physical(a2c!, a2c!.esContour!, calibrated))
+    );
+  }
+  if (hasA4c) return computeViewVolumes(a4c!);
+  if (hasA2c) return computeViewVolumes(a2c!);
+  return null;
+};
+
+// Pairs the n-th beat of each view; views without detected beats contribute their whole-clip contours
+export const computeBeatVolumes = (a4c: ViewAnalysis | null, a2c: ViewAnalysis | null): VolumeResult[] => {
+  const perBeat = (view: ViewAnalysis | null): (ViewAnalysis | null)[] => {
+    if (!view) return [null];
+    if (view.beats.length === 0) return [view];
+    return view.beats.map(b => ({ ...view, edContour: b.edContour, esContour: b.esContour }));
+  };
+  const beatsA4c = perBeat(a4c);
+  const beatsA2c = perBeat(a2c);
+  const count = a4c && a2c ? Math.min(beatsA4c.length, beatsA2c.length) : Math.max(beatsA4c.length, beatsA2c.length);
+  return Array.from({ length: count })
+    .map((_, i) => computeVolumes(beatsA4c[i] ?? null, beatsA2c[i] ?? null))
+    .filter((v): v is VolumeResult => v !== null);
+};
+
+export const averageVolumes = (results: VolumeResult[]): VolumeResult | null => {
+  if (results.length === 0) return null;
+  const mean = (key: 'edv' | 'esv' | 'sv' | 'ef') => results.reduce((acc, r) => acc + r[key], 0) / results.length;
+  return { method: results[0].method, unit: results[0].unit, edv: mean('edv'), esv: mean('esv'), sv: mean('sv'), ef: mean('ef') };
+};
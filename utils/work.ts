@@ -0,0 +1,136 @@
+import { ViewAnalysis, BloodPressure, ValveTimings, MyocardialWork, PressureStrainPoint, SegmentStatus, StrainSample } from '../types';
+import { cycleFrames, rereferenceStrain } from './cycles';
+
+// Reference LV pressure shape, as fractions of peak systolic pressure
+const END_DIASTOLIC = 0.08;
+const EARLY_FILLING = 0.04; // at mitral valve opening
+const PEAK_EJECTION = 0.4; // fraction of ejection at which pressure peaks
+const AORTIC_CLOSURE = 0.85;
+
+const ISOVOLUMIC_CONTRACTION_MS = 50;
+const ISOVOLUMIC_RELAXATION_MS = 80;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const ease = (from: number, to: number, x: number) => from + ((to - from) * (1 - Math.cos(Math.PI * Math.min(1, Math.max(0, x))))) / 2;
+
+// Valve closure at end-diastole, aortic closure at end-systole and the isovolumic periods at
+// their typical adult durations
+export const estimateValveTimings = (views: ViewAnalysis[]): ValveTimings => {
+  const systoles = views.flatMap(v => cycleFrames(v)
+    .filter(({ ed, es }) => es > ed && es < v.history.length)
+    .map(({ ed, es }) => (v.history[es].time - v.history[ed].time) * 1000));
+  const avc = systoles.length > 0 ? mean(systoles) : 300;
+  return { mvc: 0, avo: ISOVOLUMIC_CONTRACTION_MS, avc, mvo: avc + ISOVOLUMIC_RELAXATION_MS };
+};
+
+// LV pressure at a time (ms from end-diastole) from the reference shape stretched between the valve
+// events and scaled so that it peaks at the cuff systolic pressure and opens the aortic valve at the
+// cuff diastolic pressure
+export const estimateLvPressure = (time: number, valves: ValveTimings, cycleMs: number, bp: BloodPressure): number => {
+  const opening = Math.min(1, bp.diastolic / bp.systolic);
+  const phase = (from: number, to: number) => (to > from ? (time - from) / (to - from) : 1);
+  let fraction: number;
+  if (time < valves.mvc) fraction = END_DIASTOLIC;
+  else if (time < valves.avo) fraction = ease(END_DIASTOLIC, opening, phase(valves.mvc, valves.avo));
+  else if (time < valves.avc) {
+    const x = phase(valves.avo, valves.avc);
+    fraction = x < PEAK_EJECTION
+      ? opening + (1 - opening) * Math.sin((Math.PI / 2) * (x / PEAK_EJECTION))
+      : 1 - (1 - AORTIC_CLOSURE) * ((x - PEAK_EJECTION) / (1 - PEAK_EJECTION)) ** 2;
+  } else if (time < valves.mvo) fraction = ease(AORTIC_CLOSURE, EARLY_FILLING, phase(valves.avc, valves.mvo));
+  else fraction = EARLY_FILLING + (END_DIASTOLIC - EARLY_FILLING) * Math.min(1, phase(valves.mvo, cycleMs + valves.mvc));
+  return fraction * bp.systolic;
+};
+
+// One cycle of a strain curve against its end-diastole with the estimated pressure at every frame
+const cycleLoop = (curve: StrainSample[], ed: number, end: number, valves: ValveTimings, bp: BloodPressure) => {
+  const window = curve.slice(ed, end + 1);
+  const times = window.map(s => (s.time - curve[ed].time) * 1000);
+  const cycleMs = times[times.length - 1];
+  return window.map((s, i) => ({
+    time: times[i],
+    strain: rereferenceStrain(s.strain, curve[ed].strain),
+    pressure: estimateLvPressure(times[i], valves, cycleMs, bp)
+  }));
+};
+
+// Work is pressure times shortening, so the total is the area of the pressure-strain loop.
+// Shortening in systole and lengthening in isovolumic relaxation are constructive, the opposite wasted.
+const loopWork = (loop: ReturnType<typeof cycleLoop>, valves: ValveTimings) => {
+  let total = 0;
+  let constructive = 0;
+  let wasted = 0;
+  loop.slice(1).forEach((b, i) => {
+    const a = loop[i];
+    const work = -((a.pressure + b.pressure) / 2) * (b.strain - a.strain);
+    const time = (a.time + b.time) / 2;
+    total += work;
+    if (time >= valves.mvc && time <= valves.avc) {
+      if (work > 0) constructive += work; else wasted -= work;
+    } else if (time > valves.avc && time <= valves.mvo) {
+      if (work < 0) constructive -= work; else wasted += work;
+    }
+  });
+  return { total, constructive, wasted };
+};
+
+const efficiency = (constructive: number, wasted: number) =>
+  (constructive + wasted > 0 ? (constructive / (constructive + wasted)) * 100 : null);
+
+// Segmental work of every cycle in every view covering the segment, averaged; global indices are
+// the mean of the segments that passed tracking QC
+export const computeMyocardialWork = (
+  views: ViewAnalysis[],
+  bloodPressure: BloodPressure,
+  valveOverride: Partial<ValveTimings> = {},
+  quality: (SegmentStatus | null)[] = []
+): MyocardialWork | null => {
+  const tracked = views.filter(v => v.history.length >= 3);
+  if (tracked.length === 0 || bloodPressure.systolic <= 0) return null;
+  const valves = { ...estimateValveTimings(tracked), ...valveOverride };
+  const loopsOf = (view: ViewAnalysis, curve: StrainSample[]) => cycleFrames(view)
+    .filter(({ ed, end }) => end - ed >= 2 && end < curve.length)
+    .map(({ ed, end }) => cycleLoop(curve, ed, end, valves, bloodPressure));
+
+  const perSegment = Array.from({ length: 17 }).map((_, seg) => {
+    const loops = tracked.flatMap(v => (v.segmentCurves[seg] ? loopsOf(v, v.segmentCurves[seg]) : []));
+    if (loops.length === 0) return null;
+    const work = loops.map(loop => loopWork(loop, valves));
+    const constructive = mean(work.map(w => w.constructive));
+    const wasted = mean(work.map(w => w.wasted));
+    return { index: mean(work.map(w => w.total)), constructive, wasted, efficiency: efficiency(constructive, wasted), loop: loops[0] };
+  });
+  const reliable = perSegment.filter((s, seg): s is NonNullable<typeof s> => s !== null && quality[seg]?.reliable !== false);
+  if (reliable.length === 0) return null;
+
+  const gcw = mean(reliable.map(s => s.constructive));
+  const gww = mean(reliable.map(s => s.wasted));
+  const toPoints = (loop: ReturnType<typeof cycleLoop>): PressureStrainPoint[] => loop.map(p => ({ strain: p.strain, pressure: p.pressure }));
+  const globalLoop = tracked.map(v => loopsOf(v, v.history)[0]).find(Boolean) ?? [];
+  const segmentLoops: { [segment: number]: PressureStrainPoint[] } = {};
+  perSegment.forEach((s, seg) => {
+    if (s) segmentLoops[seg] = toPoints(s.loop);
+  });
+
+  return {
+    gwi: mean(reliable.map(s => s.index)),
+    gcw,
+    gww,
+    gwe: efficiency(gcw, gww) ?? 0,
+    segments: {
+      workIndex: perSegment.map(s => s?.index ?? null),
+      constructive: perSegment.map(s => s?.constructive ?? null),
+      wasted: perSegment.map(s => s?.wasted ?? null),
+      efficiency: perSegment.map(s => s?.efficiency ?? null)
+    },
+    bloodPressure,
+    valves,
+    valvesManual: Object.keys(valveOverride).length > 0,
+    pressure: globalLoop.map(p => ({ time: p.time / 1000, value: p.pressure })),
+    loops: {
+      global: toPoints(globalLoop),
+      segments: segmentLoops
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { FrameContext, MotionWorkerRequest, MotionWorkerResponse } from '../types';
+import { analyzeFrame, createTrackerState, TrackerState } from '../utils/pipeline';
+
+// A worker can host several jobs; each keeps its own previous frame and point set
+const jobs = new Map<string, { context: FrameContext, state: TrackerState }>();
+const scope = self as unknown as Worker;
+
+const post = (message: MotionWorkerResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+scope.onmessage = (e: MessageEvent<MotionWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'start':
+      jobs.set(msg.jobId, { context: msg.context, state: createTrackerState() });
+      break;
+    case 'frame': {
+      const job = jobs.get(msg.jobId);
+      // Frames still queued behind a cancel are dropped silently
+      if (!job) return;
+      try {
+        const { state, output } = analyzeFrame(job.state, new Uint8ClampedArray(msg.buffer), msg.width, msg.height, job.context);
+        job.state = state;
+        post({ type: 'frame', jobId: msg.jobId, frameIndex: msg.frameIndex, output }, [output.mask.buffer]);
+      } catch (err) {
+        post({ type: 'error', jobId: msg.jobId, frameIndex: msg.frameIndex, message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    }
+    case 'cancel':
+      jobs.delete(msg.jobId);
+      post({ type: 'cancelled', jobId: msg.jobId });
+      break;
+    case 'finish':
+      jobs.delete(msg.jobId);
+      break;
+  }
+};